@@ -0,0 +1,90 @@
+// WebSocket bridge for the planner's live robot mode
+//
+//   pros terminal | node scripts/pose-bridge.mjs   forward every line the robot prints
+//   node scripts/pose-bridge.mjs --mock            drive a pretend robot around the field
+//
+// The robot should print its pose as "millis,x,y,theta", for example
+//   printf("%d,%.2f,%.2f,%.2f\n", pros::millis(), pose.x, pose.y, pose.theta);
+// Other terminal output is forwarded too, the planner skips lines that aren't poses.
+// Set PORT to listen somewhere other than 8765.
+import { createServer } from 'node:http'
+import { createHash } from 'node:crypto'
+import { createInterface } from 'node:readline'
+
+const PORT = Number(process.env.PORT ?? 8765)
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+const MOCK = process.argv.includes('--mock') || process.stdin.isTTY
+
+// The mock robot circles the middle of the field at 50 poses a second
+const MOCK_RADIUS = 36
+const MOCK_INTERVAL_MS = 20
+const MOCK_SECONDS_PER_LAP = 12
+
+const clients = new Set()
+
+// One unmasked text frame, lines are short so a 16 bit length is enough
+const textFrame = (text) => {
+  const payload = Buffer.from(text)
+  const header = payload.length < 126
+    ? Buffer.from([0x81, payload.length])
+    : Buffer.from([0x81, 126, (payload.length >> 8) & 0xff, payload.length & 0xff])
+  return Buffer.concat([header, payload])
+}
+
+const broadcast = (line) => {
+  const frame = textFrame(line)
+  clients.forEach(socket => socket.write(frame))
+}
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' })
+  res.end('Connect with a WebSocket\n')
+})
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key']
+  if (typeof key !== 'string') {
+    socket.destroy()
+    return
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64')
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'))
+  clients.add(socket)
+  console.log(`planner connected (${clients.size} open)`)
+
+  // The planner never sends anything but a close frame
+  socket.on('data', (data) => {
+    if ((data[0] & 0x0f) === 0x8) socket.end(Buffer.from([0x88, 0]))
+  })
+  const remove = () => {
+    if (clients.delete(socket)) console.log(`planner disconnected (${clients.size} open)`)
+  }
+  socket.on('close', remove)
+  socket.on('error', remove)
+})
+
+server.listen(PORT, () => {
+  console.log(`pose bridge on ws://localhost:${PORT}, ${MOCK ? 'sending a mock robot' : 'forwarding stdin'}`)
+})
+
+if (MOCK) {
+  const start = Date.now()
+  setInterval(() => {
+    const millis = Date.now() - start
+    // Angle around the circle measured like a heading, 0 = up and clockwise
+    const angle = ((millis / 1000 / MOCK_SECONDS_PER_LAP) * 2 * Math.PI) % (2 * Math.PI)
+    const x = MOCK_RADIUS * Math.sin(angle)
+    const y = MOCK_RADIUS * Math.cos(angle)
+    const theta = ((angle * 180) / Math.PI + 90) % 360
+    broadcast(`${millis},${x.toFixed(2)},${y.toFixed(2)},${theta.toFixed(2)}`)
+  }, MOCK_INTERVAL_MS)
+} else {
+  createInterface({ input: process.stdin }).on('line', broadcast)
+}
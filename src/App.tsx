@@ -1,77 +1,228 @@
 import { useState, useRef, useEffect, useMemo } from 'react'
 import './App.css'
 import { Analytics } from "@vercel/analytics/react"
-import { fieldImages } from './constants'
-import type { Point } from './types'
+import { BUILTIN_FIELDS } from './constants'
+import type { ContextMenuItem, DrivetrainModel, FieldPosition, FieldPreset, MotionType, PendingCalibration, PendingImport, Point, TelemetryLog, RobotProfile, RouteLibrary, RouteSheet, RouteTransform, SavedRoute, SimulationMode, SnapSettings } from './types'
 import { NumberInput } from './components/NumberInput'
 import { IconButton } from './components/IconButton'
 import { SelectInput } from './components/SelectInput'
 import { Checkbox } from './components/Checkbox'
+import { RouteLibraryPanel } from './components/RouteLibraryPanel'
+import { RobotProfilePanel } from './components/RobotProfilePanel'
+import { SnapSettingsPanel } from './components/SnapSettingsPanel'
+import { Timeline } from './components/Timeline'
+import { useHistory } from './hooks/useHistory'
+import { useViewport } from './hooks/useViewport'
+import { useLivePose } from './hooks/useLivePose'
+import { cornersFromClicks, fieldToPixel, getCalibrationProblem, getPixelsPerInch, measureBetween, pixelToField, round1 } from './geometry'
+import { buildShareUrl, encodeShareData } from './share'
+import { createId, createRobotProfile, createRoute, getActiveRoute, loadFieldPresets, loadLibrary, loadRobotProfiles, saveFieldPresets, saveLibrary, saveRobotProfiles } from './storage'
+import { getMaxVelocity } from './robots'
+import { RouteFileError, parseRouteFile, serializeRoute } from './routeFile'
+import { isJerryioProject, parseJerryioProject, parseLemlibPath, simplifyPathFile } from './importers'
+import { ImportPreview } from './components/ImportPreview'
+import { FieldCalibrationDialog } from './components/FieldCalibrationDialog'
+import { ContextMenu } from './components/ContextMenu'
+import { LintPanel } from './components/LintPanel'
+import { ActionList } from './components/ActionList'
+import { describeAction, getActionMarkers } from './actions'
+import { type ParsedAutonCode, parseAutonCode } from './codeParser'
+import { facingHeading, getDefaultControls, getEffectiveTheta, getPoseAtDistance, getSegmentEndHeading, getSegmentPosition, samplePath, shiftAttachedControls } from './path'
+import { codeGenerators, getCodeGenerator } from './generators'
+import { fieldElements, fieldFeatures } from './fieldElements'
+import { DEFAULT_SNAP, type SnapResult, isSnapping, snapPosition } from './snapping'
+import { type RobotPose, findCollisions, getElementCorners, getRobotCorners, sweepRoute } from './collision'
+import { lintRoute } from './lint'
+import { getTelemetryPose, getWaypointErrors, parseTelemetryLog } from './telemetry'
+import { ROUTE_TRANSFORMS, syncLinkedRoutes, transformPoints } from './transforms'
+import { createPoint, deletePoints, insertPoint, movePoint, pastePoints } from './pointEdits'
+import { DEFAULT_DRIVETRAIN, MATCH_AUTON_TIME, SKILLS_AUTON_TIME, getSimulationState, getTimeAtDistance, planSimulation } from './simulation'
+import { buildRouteSheetPdf, canRecordWebm, canvasToBlob, createGifEncoder, downloadBlob, recordWebm } from './exporters'
+
+// Below this window width (px) the side panels start collapsed
+const PANEL_COLLAPSE_WIDTH = 1200
+
+interface FieldDrawOptions {
+  progress: number; // robot position along the path, 0 to 1
+  turn: { facing: number; segment: number } | null; // heading while turning in place, replaces the path direction
+  showRobot: boolean;
+  editing: boolean;
+}
 
 function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const [points, setPoints] = useState<Point[]>([])
-  const [nextId, setNextId] = useState(0)
+  const [library, setLibrary] = useState<RouteLibrary>(loadLibrary)
+  const initialRoute = getActiveRoute(library)
+  const {
+    present: points,
+    set: setPoints,
+    reset: resetPoints,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    beginGesture,
+    endGesture
+  } = useHistory<Point[]>(initialRoute.points)
+  const [nextId, setNextId] = useState(() => Math.max(...initialRoute.points.map(p => p.id), -1) + 1)
   const [image, setImage] = useState<HTMLImageElement | null>(null)
-  const [fieldImageSrc, setFieldImageSrc] = useState<string>('h2h')
+  const [fieldImageSrc, setFieldImageSrc] = useState<string>(initialRoute.field)
+  // Uploaded field images, listed after the built-in ones
+  const [customFields, setCustomFields] = useState<FieldPreset[]>(loadFieldPresets)
+  // An uploaded image having its corners clicked, the canvas shows it instead of the route until it is saved
+  const [pendingCalibration, setPendingCalibration] = useState<PendingCalibration | null>(null)
   const [draggingId, setDraggingId] = useState<number | null>(null)
+  const [draggingHandle, setDraggingHandle] = useState<{ id: number; handle: 0 | 1 } | null>(null)
   const [hoveredId, setHoveredId] = useState<number | null>(null)
   const [selectedId, setSelectedId] = useState<number | null>(null)
-  const [robotProgress, setRobotProgress] = useState<number>(0)
+  // Points selected along with selectedId, which stays the one shown in the edit panel
+  const [selectedIds, setSelectedIds] = useState<number[]>([])
+  // Shift-drag rectangle for selecting points, in canvas pixels
+  const [selectionBox, setSelectionBox] = useState<{ start: { x: number; y: number }; end: { x: number; y: number } } | null>(null)
+  // Index in the points list a dragged entry would be dropped at
+  const [listDrag, setListDrag] = useState<{ from: number; to: number } | null>(null)
+  // Time into the Run simulation (ms) the robot is shown at, its place on the path follows from it
+  const [robotTime, setRobotTime] = useState<number>(0)
   const [hoveredPathProgress, setHoveredPathProgress] = useState<number | null>(null)
   const [lastHoveredProgress, setLastHoveredProgress] = useState<number>(0)
-  const [botWidth, setBotWidth] = useState<number>(15)
-  const [botLength, setBotLength] = useState<number>(15)
+  const [robot, setRobot] = useState<RobotProfile>(initialRoute.robot)
+  const [robotProfiles, setRobotProfiles] = useState<RobotProfile[]>(loadRobotProfiles)
   const [isRunning, setIsRunning] = useState<boolean>(false)
   const [showBot, setShowBot] = useState<boolean>(true)
   const [showArrows, setShowArrows] = useState<boolean>(true)
   const [showLines, setShowLines] = useState<boolean>(true)
   const [showGuideCoordinates, setShowGuideCoordinates] = useState<boolean>(true)
-
-  // Helper to get the effective theta for a point
-  // For non-last points: angle to next point
-  // For last point: use stored theta value
-  const getEffectiveTheta = (index: number): number => {
-    if (index < points.length - 1) {
-      // Calculate angle to next point in degrees
-      const dx = points[index + 1].x - points[index].x
-      const dy = points[index + 1].y - points[index].y
-      // In canvas: positive Y is down. atan2(dy, dx) gives:
-      // 0 = right, π/2 = down, π/-π = left, -π/2 = up
-      // We want: 0 = up, 90 = right, 180 = down, 270 = left
-      // So: theta = (atan2 + π/2) * 180/π, normalized to 0-360
-      const radians = Math.atan2(dy, dx)
-      let degrees = ((radians + Math.PI / 2) * 180) / Math.PI
-      // Normalize to 0-360
-      while (degrees < 0) degrees += 360
-      while (degrees >= 360) degrees -= 360
-      return degrees
-    } else {
-      // Last point uses stored theta
-      return points[index].theta
+  const [showFieldElements, setShowFieldElements] = useState<boolean>(false)
+  const [showSweptArea, setShowSweptArea] = useState<boolean>(false)
+  const [snap, setSnap] = useState<SnapSettings>(DEFAULT_SNAP)
+  // Where the point under the mouse would land, and what it lined up with
+  const [snapPreview, setSnapPreview] = useState<SnapResult | null>(null)
+  const [codeTarget, setCodeTarget] = useState<string>('lemlib')
+  const [simulationMode, setSimulationMode] = useState<SimulationMode>('timeout')
+  const [drivetrain, setDrivetrain] = useState<DrivetrainModel>(DEFAULT_DRIVETRAIN)
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null)
+  // A logged practice run drawn over the plan, it isn't saved with the route
+  const [telemetry, setTelemetry] = useState<TelemetryLog | null>(null)
+  // Pose streamed from the robot through the WebSocket bridge
+  const live = useLivePose()
+  const [liveUrl, setLiveUrl] = useState<string>('ws://localhost:8765')
+  // Measure mode turns canvas clicks into the two ends of a ruler, the end follows the mouse until it is fixed
+  const [measureMode, setMeasureMode] = useState<boolean>(false)
+  const [measure, setMeasure] = useState<{ start: FieldPosition; end: FieldPosition; fixed: boolean } | null>(null)
+  // Space held down turns left-drags on the canvas into panning
+  const [spaceHeld, setSpaceHeld] = useState<boolean>(false)
+  // Actions for a point or a spot on the path, opened by a long press or a right-click
+  const [contextMenu, setContextMenu] = useState<{ left: number; top: number; pointId: number | null; insert: { position: FieldPosition; segment: number } | null } | null>(null)
+  // Side panels start collapsed on tablet-sized screens to leave room for the field
+  const [showLeftPanels, setShowLeftPanels] = useState<boolean>(() => window.innerWidth >= PANEL_COLLAPSE_WIDTH)
+  const [showRightPanels, setShowRightPanels] = useState<boolean>(() => window.innerWidth >= PANEL_COLLAPSE_WIDTH)
+  const [showExportMenu, setShowExportMenu] = useState<boolean>(false)
+  // Progress of a running export, null when none is running
+  const [exportStatus, setExportStatus] = useState<string | null>(null)
+  const fieldPresets = [...BUILTIN_FIELDS, ...customFields]
+  // Routes can name a field uploaded in another browser, those fall back to the first built-in one
+  const fieldPreset = fieldPresets.find(f => f.id === fieldImageSrc) ?? BUILTIN_FIELDS[0]
+  // Field elements, starting tiles and the time limit come from the built-in field the image shows
+  const fieldLayout = fieldPreset.layout
+  const fieldImageUrl = pendingCalibration?.image ?? fieldPreset.image
+  const viewport = useViewport(
+    canvasRef,
+    pendingCalibration?.width ?? fieldPreset.calibration.width,
+    pendingCalibration?.height ?? fieldPreset.calibration.height
+  )
+  const { view: canvasView, size: canvasSize } = viewport
+
+  const pathSamples = useMemo(() => samplePath(points), [points])
+  // Distance along the path where each point is reached
+  const segmentEnds = useMemo(() => {
+    const ends = [0]
+    pathSamples.forEach(s => { ends[s.segment] = s.distance })
+    return ends
+  }, [pathSamples])
+  // Every selected point, the extra ones only count while the point in the edit panel is among them
+  const selection = useMemo(() => {
+    if (selectedId === null) return []
+    return selectedIds.includes(selectedId) ? selectedIds : [selectedId]
+  }, [selectedId, selectedIds])
+  const actionMarkers = useMemo(() => getActionMarkers(points, pathSamples), [points, pathSamples])
+  const sweeps = useMemo(() => sweepRoute(points, pathSamples), [points, pathSamples])
+  const collisions = useMemo(() => findCollisions(sweeps, robot, fieldElements[fieldLayout] ?? []), [sweeps, robot, fieldLayout])
+  // Top speed comes from the robot's wheels and motors, the rest of the model from the physics settings
+  const robotMaxVelocity = getMaxVelocity(robot)
+  const simulationPlan = useMemo(() => planSimulation(points, { ...drivetrain, maxVelocity: robotMaxVelocity }), [points, drivetrain, robotMaxVelocity])
+  // Each move on the timeline, lasting its timeout or the simulated time in physics mode
+  const timelineBlocks = useMemo(() => {
+    let start = 0
+    return points.slice(1).map((point, i) => {
+      const segment = simulationMode === 'physics' ? simulationPlan.segments[i] : undefined
+      const duration = segment ? segment.total : point.timeout / 1000
+      const block = {
+        pointIndex: i + 1,
+        start,
+        duration,
+        turnTime: segment?.turnTime ?? 0,
+        overTimeout: segment ? segment.driveTime * 1000 > point.timeout : false,
+      }
+      start += duration
+      return block
+    })
+  }, [points, simulationMode, simulationPlan])
+  // When each action fires during the run
+  const timelineMarkers = useMemo(() => points.flatMap((point, index) => point.actions.map(action => {
+    let time = 0
+    if (index > 0) {
+      const block = timelineBlocks[index - 1]
+      const from = segmentEnds[index - 1] ?? 0
+      const to = segmentEnds[index] ?? from
+      if (action.timing === 'before') {
+        time = block.start
+      } else if (action.timing === 'after') {
+        time = block.start + block.duration
+      } else if (simulationMode === 'physics') {
+        time = getTimeAtDistance(simulationPlan, Math.min(from + action.distance, to))
+      } else {
+        time = block.start + (to > from ? block.duration * Math.min(action.distance / (to - from), 1) : 0)
+      }
     }
-  }
+    return { time, label: describeAction(action), pointIndex: index }
+  })), [points, timelineBlocks, segmentEnds, simulationMode, simulationPlan])
+  const lintIssues = useMemo(() => lintRoute({
+    points,
+    samples: pathSamples,
+    robot,
+    model: { ...drivetrain, maxVelocity: robotMaxVelocity },
+    field: fieldLayout,
+  }), [points, pathSamples, robot, drivetrain, robotMaxVelocity, fieldLayout])
+  const waypointErrors = useMemo(() => telemetry ? getWaypointErrors(points, telemetry.samples) : [], [points, telemetry])
+  const importPreview = useMemo<ParsedAutonCode>(() => {
+    if (!pendingImport) return { points: [], issues: [] }
+    if (pendingImport.kind === 'code') return parseAutonCode(pendingImport.code)
+    if (pendingImport.kind === 'jerryio') return { points: pendingImport.paths[pendingImport.pathIndex]?.points ?? [], issues: [] }
+    return { points: simplifyPathFile(pendingImport.samples, pendingImport.tolerance), issues: [] }
+  }, [pendingImport])
+  const importPreviewPoints = importPreview.points
+  const autonTimeLimit = fieldLayout === 'skills' ? SKILLS_AUTON_TIME : MATCH_AUTON_TIME
 
   const generatedCodeLines = useMemo(() => {
     if (points.length === 0) return []
-    const lines: { line: string; pointIndex: number | null }[] = []
-    points.forEach((point, index) => {
-      const x = Math.round(point.fieldX * 10) / 10
-      const y = Math.round(point.fieldY * 10) / 10
-      if (index === 0) {
-        const theta = Math.round(getEffectiveTheta(0) * 10) / 10
-        lines.push({ line: `chassis.setPose(${x}, ${y}, ${theta});`, pointIndex: index })
-      } else {
-        lines.push({ line: "\n", pointIndex: -1 })
-        lines.push({ line: `chassis.turnToPoint(${x}, ${y}, 500, {.forwards=${point.forwards}, .maxSpeed=${point.speed}}, false);`, pointIndex: index })
-        lines.push({ line: `chassis.moveToPoint(${x}, ${y}, ${point.timeout}, {.forwards=${point.forwards}, .maxSpeed=${point.speed}}, false);`, pointIndex: index })
-      }
-    })
-    return lines
-  }, [points])
+    const generator = getCodeGenerator(codeTarget)
+    return generator.generate(points, robot.chassisName || generator.defaultChassis)
+  }, [points, codeTarget, robot.chassisName])
 
   const rafRef = useRef<number | null>(null)
+  const clipboardRef = useRef<Point[]>([])
+  // Set once a drag actually moves something, so the click that ends it doesn't change the selection
+  const dragMovedRef = useRef(false)
+  // Set by pinches, touch pans and long presses, so the click the browser sends after them is ignored
+  const suppressClickRef = useRef(false)
+  // Fingers on the canvas by pointer id, two of them pinch-zoom
+  const touchesRef = useRef(new Map<number, { x: number; y: number }>())
+  const longPressRef = useRef<{ timer: number; x: number; y: number } | null>(null)
+  // Touch and pen get bigger hit targets than the mouse
+  const pointerTypeRef = useRef<string>('mouse')
   const lastTimeRef = useRef<number | null>(null)
+  // robotTime for the simulation loop, so seeking while it runs moves it
+  const robotTimeRef = useRef(0)
 
   // points
   const POINT_RADIUS = 30
@@ -82,6 +233,42 @@ function App() {
   // path line
   const LINE_COLOR = '#ff00ff80'
   const LINE_WIDTH = 5
+  // clicks this close (px) to the path insert a point on it
+  const PATH_INSERT_DISTANCE = 20
+  // touch
+  const TOUCH_TARGET_RADIUS = 22 // screen px, a 44px target
+  const LONG_PRESS_MS = 500
+  const LONG_PRESS_SLOP = 10 // screen px a finger can wander before it is a drag
+  // measure tool
+  const MEASURE_COLOR = '#ffffff'
+  const MEASURE_LABEL_BACKGROUND = '#000000c0'
+  // box selection
+  const SELECTION_BOX_COLOR = '#4080ffc0'
+  // bezier handles
+  const HANDLE_RADIUS = 16
+  const HANDLE_COLOR = '#00ffffc0'
+  const HANDLE_LINE_COLOR = '#00ffff80'
+  // import preview
+  const PREVIEW_COLOR = '#ffa500c0'
+  // odometry log
+  const TELEMETRY_COLOR = '#4090ffe0'
+  const TELEMETRY_LINE_WIDTH = 4
+  // live robot
+  const LIVE_COLOR = '#ff40c0e0'
+  // action markers
+  const ACTION_MARKER_SIZE = 18
+  const ACTION_MARKER_COLOR = '#ffd000e0'
+  const ACTION_LABEL_COLOR = '#ffd000'
+  // field elements and collisions
+  const FIELD_ELEMENT_COLOR = '#00c8ffa0'
+  const COLLISION_COLOR = '#ff3030e0'
+  // snapping
+  const SNAP_GUIDE_COLOR = '#00ffa0c0'
+  // field calibration corners
+  const CALIBRATION_COLOR = '#ff8000e0'
+  // swept area
+  const SWEPT_AREA_COLOR = '#ff80ff38'
+  const GHOST_COLOR = '#ffffffa0'
   // robot
   const ROBOT_COLOR = '#ffffff30'
   const BOT_BORDER_COLOR = '#000000'
@@ -93,49 +280,250 @@ function App() {
   const ARROW_HEAD_ANGLE = Math.PI / 6
   const ARROW_HEAD_LENGTH_IN = 2
   const ARROW_MAIN_LENGTH_IN = 6
+  // exports, animations are scaled down to keep files small
+  const EXPORT_GIF_WIDTH = 540 // px
+  const EXPORT_GIF_FPS = 10
+  const EXPORT_WEBM_WIDTH = 1080 // px
+  const EXPORT_WEBM_FPS = 30
 
   // Load the image
   useEffect(() => {
     // console.log('load image')
     const img = new Image()
-    img.src = fieldImages[fieldImageSrc as keyof typeof fieldImages]
+    img.src = fieldImageUrl
     img.onload = () => {
       setImage(img)
-      const canvas = canvasRef.current
-      if (canvas) {
-        canvas.width = img.width
-        canvas.height = img.height
+    }
+  }, [fieldImageUrl])
+
+  // Draw the field and the route in field image pixels, for the canvas and for exports
+  // Exports leave out what only matters while editing: hover and selection, snapping, handles, previews, the ruler and robot logs
+  const drawField = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, options: FieldDrawOptions) => {
+    // Draw background image
+    ctx.drawImage(image, 0, 0)
+
+    // While calibrating only the uploaded image and the corners clicked so far are shown
+    if (options.editing && pendingCalibration) {
+      ctx.save()
+      ctx.strokeStyle = CALIBRATION_COLOR
+      ctx.fillStyle = CALIBRATION_COLOR
+      ctx.lineWidth = 3
+      const clicks = pendingCalibration.clicks
+      if (clicks.length === 2 && pendingCalibration.cornerCount === 2) {
+        const [topLeft, bottomRight] = clicks
+        ctx.strokeRect(topLeft.x, topLeft.y, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y)
+      } else if (clicks.length > 1) {
+        ctx.beginPath()
+        clicks.forEach((c, i) => i === 0 ? ctx.moveTo(c.x, c.y) : ctx.lineTo(c.x, c.y))
+        if (clicks.length === 4) ctx.closePath()
+        ctx.stroke()
       }
+      // Marker size in screen pixels, so they stay usable on images of any resolution
+      const radius = 8 / canvasView.scale
+      clicks.forEach(c => {
+        ctx.beginPath()
+        ctx.arc(c.x, c.y, radius, 0, Math.PI * 2)
+        ctx.fill()
+      })
+      ctx.restore()
+      return
     }
-  }, [fieldImageSrc])
 
-  // Draw canvas
-  useEffect(() => {
-    const canvas = canvasRef.current
-    if (!canvas || !image) return
+    // Trace the straight and curved segments of a route as one canvas path
+    // Curves go through their field samples, since a four corner calibration bends straight pixel lines and curves differently
+    const tracePath = (route: Point[]) => {
+      const samples = route === points ? pathSamples : samplePath(route)
+      ctx.beginPath()
+      samples.forEach((sample, i) => {
+        const pt = fieldToPixelCoords(sample.fieldX, sample.fieldY)
+        if (i === 0) ctx.moveTo(pt.x, pt.y)
+        else ctx.lineTo(pt.x, pt.y)
+      })
+    }
 
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
+    // Trace a closed outline through field positions
+    const tracePolygon = (corners: FieldPosition[]) => {
+      ctx.beginPath()
+      corners.forEach((c, i) => {
+        const pt = fieldToPixelCoords(c.fieldX, c.fieldY)
+        if (i === 0) ctx.moveTo(pt.x, pt.y)
+        else ctx.lineTo(pt.x, pt.y)
+      })
+      ctx.closePath()
+    }
 
+    // Draw the outlines used for collision checks
+    if (showFieldElements) {
+      ctx.strokeStyle = FIELD_ELEMENT_COLOR
+      ctx.lineWidth = 4
+      const elements = fieldElements[fieldLayout] ?? []
+      elements.forEach(element => {
+        tracePolygon(getElementCorners(element))
+        ctx.stroke()
+      })
+    }
 
-    // Draw background image
-    ctx.drawImage(image, 0, 0)
+    // Everything the robot body covers over the whole route as one band, so overlaps don't darken it,
+    // with the robot outlined where it starts and where it arrives at each point
+    if (showSweptArea && sweeps.length > 0) {
+      ctx.save()
+      ctx.fillStyle = SWEPT_AREA_COLOR
+      ctx.beginPath()
+      sweeps.forEach(({ poses }) => poses.forEach(pose => {
+        getRobotCorners(pose, robot).forEach((c, i) => {
+          const pt = fieldToPixelCoords(c.fieldX, c.fieldY)
+          if (i === 0) ctx.moveTo(pt.x, pt.y)
+          else ctx.lineTo(pt.x, pt.y)
+        })
+        ctx.closePath()
+      }))
+      ctx.fill('nonzero')
+
+      ctx.strokeStyle = GHOST_COLOR
+      ctx.lineWidth = 3
+      ctx.setLineDash([10, 6])
+      const ghosts = [sweeps[0].poses[0], ...sweeps.map(({ poses }) => poses[poses.length - 1])]
+      ghosts.forEach(pose => {
+        tracePolygon(getRobotCorners(pose, robot))
+        ctx.stroke()
+      })
+      ctx.restore()
+    }
 
     // Draw lines connecting points
     if (showLines && points.length > 1) {
       ctx.strokeStyle = LINE_COLOR
       ctx.lineWidth = LINE_WIDTH
-      ctx.beginPath()
-      // use fieldToPixelCoords to ensure lines connect the displayed centers
-      const start = fieldToPixelCoords(points[0].fieldX, points[0].fieldY)
-      ctx.moveTo(start.x, start.y)
-      for (let i = 1; i < points.length; i++) {
-        const pt = fieldToPixelCoords(points[i].fieldX, points[i].fieldY)
-        ctx.lineTo(pt.x, pt.y)
-      }
+      tracePath(points)
       ctx.stroke()
     }
 
+    // Redraw colliding segments, with the robot outline where it first hits
+    collisions.forEach(collision => {
+      ctx.save()
+      ctx.strokeStyle = COLLISION_COLOR
+      ctx.lineWidth = LINE_WIDTH
+      tracePath([points[collision.segment - 1], points[collision.segment]])
+      ctx.stroke()
+      ctx.setLineDash([12, 8])
+      ctx.lineWidth = 3
+      tracePolygon(getRobotCorners(collision.pose, robot))
+      ctx.stroke()
+      ctx.restore()
+    })
+
+    // Draw the route waiting to be imported over the current one
+    if (options.editing && importPreviewPoints.length > 0) {
+      ctx.save()
+      ctx.strokeStyle = PREVIEW_COLOR
+      ctx.fillStyle = PREVIEW_COLOR
+      ctx.lineWidth = LINE_WIDTH
+      ctx.setLineDash([20, 12])
+      if (importPreviewPoints.length > 1) {
+        tracePath(importPreviewPoints)
+        ctx.stroke()
+      }
+      importPreviewPoints.forEach(p => {
+        const center = fieldToPixelCoords(p.fieldX, p.fieldY)
+        ctx.beginPath()
+        ctx.arc(center.x, center.y, POINT_RADIUS / 2, 0, Math.PI * 2)
+        ctx.fill()
+      })
+      ctx.restore()
+    }
+
+    // Draw bezier control handles, each tied to the end of the segment it shapes
+    for (let i = 1; i < points.length; i++) {
+      const controls = points[i].controls
+      if (!options.editing || points[i].motion !== 'bezier' || !controls) continue
+      const anchors = [points[i - 1], points[i]]
+      controls.forEach((control, h) => {
+        const anchor = fieldToPixelCoords(anchors[h].fieldX, anchors[h].fieldY)
+        const handle = fieldToPixelCoords(control.fieldX, control.fieldY)
+        ctx.strokeStyle = HANDLE_LINE_COLOR
+        ctx.lineWidth = 3
+        ctx.beginPath()
+        ctx.moveTo(anchor.x, anchor.y)
+        ctx.lineTo(handle.x, handle.y)
+        ctx.stroke()
+        ctx.fillStyle = HANDLE_COLOR
+        ctx.beginPath()
+        ctx.arc(handle.x, handle.y, HANDLE_RADIUS, 0, Math.PI * 2)
+        ctx.fill()
+      })
+    }
+
+    // Draw markers where waypoint actions fire, labelled for the selected point
+    const selectedPointIndex = options.editing ? points.findIndex(p => p.id === selectedId) : -1
+    actionMarkers.forEach(marker => {
+      const center = fieldToPixelCoords(marker.fieldX, marker.fieldY)
+      // Markers on a waypoint sit at the top right of its circle
+      const x = marker.onPoint ? center.x + POINT_RADIUS : center.x
+      const y = marker.onPoint ? center.y - POINT_RADIUS : center.y
+      ctx.fillStyle = ACTION_MARKER_COLOR
+      ctx.beginPath()
+      ctx.moveTo(x, y - ACTION_MARKER_SIZE)
+      ctx.lineTo(x + ACTION_MARKER_SIZE, y)
+      ctx.lineTo(x, y + ACTION_MARKER_SIZE)
+      ctx.lineTo(x - ACTION_MARKER_SIZE, y)
+      ctx.closePath()
+      ctx.fill()
+      ctx.font = 'bold 28px Arial'
+      ctx.textBaseline = 'middle'
+      ctx.textAlign = 'left'
+      ctx.fillStyle = ACTION_LABEL_COLOR
+      const labels = marker.pointIndex === selectedPointIndex
+        ? marker.actions.map(describeAction)
+        : marker.actions.length > 1 ? [`${marker.actions.length}`] : []
+      labels.forEach((label, i) => {
+        ctx.fillText(label, x + ACTION_MARKER_SIZE + 6, y + (i - (labels.length - 1) / 2) * 32)
+      })
+    })
+
+    // Draw what the point being placed or dragged snaps to
+    if (options.editing && snapPreview) {
+      ctx.save()
+      ctx.strokeStyle = SNAP_GUIDE_COLOR
+      ctx.fillStyle = SNAP_GUIDE_COLOR
+      ctx.lineWidth = 3
+      ctx.setLineDash([16, 10])
+      snapPreview.guides.forEach(guide => {
+        ctx.beginPath()
+        if (guide.kind === 'grid') {
+          // Lines through the snapped spot along the tile seams
+          const { x, y } = fieldToPixelCoords(guide.position.fieldX, guide.position.fieldY)
+          ctx.moveTo(x, 0)
+          ctx.lineTo(x, image.height)
+          ctx.moveTo(0, y)
+          ctx.lineTo(image.width, y)
+        } else if (guide.kind === 'feature') {
+          const { x, y } = fieldToPixelCoords(guide.position.fieldX, guide.position.fieldY)
+          ctx.arc(x, y, POINT_RADIUS + 10, 0, Math.PI * 2)
+          ctx.font = 'bold 28px Arial'
+          ctx.textBaseline = 'bottom'
+          ctx.textAlign = 'center'
+          ctx.fillText(guide.name, x, y - POINT_RADIUS - 14)
+        } else if (guide.kind === 'heading') {
+          // A ray across the whole field from the previous point
+          const radians = (guide.heading * Math.PI) / 180
+          const start = fieldToPixelCoords(guide.from.fieldX, guide.from.fieldY)
+          const end = fieldToPixelCoords(guide.from.fieldX + Math.sin(radians) * 204, guide.from.fieldY + Math.cos(radians) * 204)
+          ctx.moveTo(start.x, start.y)
+          ctx.lineTo(end.x, end.y)
+        } else {
+          const center = fieldToPixelCoords(guide.center.fieldX, guide.center.fieldY)
+          const edge = fieldToPixelCoords(guide.center.fieldX + guide.radius, guide.center.fieldY)
+          ctx.arc(center.x, center.y, edge.x - center.x, 0, Math.PI * 2)
+        }
+        ctx.stroke()
+      })
+      const { x, y } = fieldToPixelCoords(snapPreview.position.fieldX, snapPreview.position.fieldY)
+      ctx.beginPath()
+      ctx.arc(x, y, POINT_RADIUS / 2, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.restore()
+    }
+
     if (showGuideCoordinates) {
       const offset = 3;
 
@@ -163,8 +551,8 @@ function App() {
 
     // Draw points (center at field coords)
     points.forEach((point, index) => {
-      const isHovered = hoveredId === point.id
-      const isSelected = selectedId === point.id
+      const isHovered = options.editing && hoveredId === point.id
+      const isSelected = options.editing && selection.includes(point.id)
 
       const center = fieldToPixelCoords(point.fieldX, point.fieldY)
 
@@ -199,9 +587,59 @@ function App() {
       ctx.fillText((index).toString(), center.x, center.y)
     })
 
+    // Draw the ruler with its distance, offsets and heading beside the end
+    if (options.editing && measure) {
+      const start = fieldToPixelCoords(measure.start.fieldX, measure.start.fieldY)
+      const end = fieldToPixelCoords(measure.end.fieldX, measure.end.fieldY)
+      const reading = measureBetween(measure.start.fieldX, measure.start.fieldY, measure.end.fieldX, measure.end.fieldY)
+      ctx.save()
+      ctx.strokeStyle = MEASURE_COLOR
+      ctx.fillStyle = MEASURE_COLOR
+      ctx.lineWidth = 4
+      ctx.setLineDash(measure.fixed ? [] : [16, 10])
+      ctx.beginPath()
+      ctx.moveTo(start.x, start.y)
+      ctx.lineTo(end.x, end.y)
+      ctx.stroke()
+      for (const p of [start, end]) {
+        ctx.beginPath()
+        ctx.arc(p.x, p.y, 8, 0, Math.PI * 2)
+        ctx.fill()
+      }
+
+      const lines = [
+        `${reading.distance.toFixed(1)} in (${reading.tiles.toFixed(2)} tiles)`,
+        `ΔX ${reading.dx.toFixed(1)}  ΔY ${reading.dy.toFixed(1)}`,
+        `${reading.heading.toFixed(1)}°`,
+      ]
+      ctx.font = 'bold 32px Arial'
+      ctx.textAlign = 'left'
+      ctx.textBaseline = 'top'
+      const labelWidth = Math.max(...lines.map(l => ctx.measureText(l).width)) + 24
+      const labelHeight = lines.length * 40 + 16
+      // Keep the label on the field when measuring near the right or bottom wall
+      const labelX = Math.min(end.x + 20, image.width - labelWidth)
+      const labelY = Math.min(end.y + 20, image.height - labelHeight)
+      ctx.fillStyle = MEASURE_LABEL_BACKGROUND
+      ctx.fillRect(labelX, labelY, labelWidth, labelHeight)
+      ctx.fillStyle = MEASURE_COLOR
+      lines.forEach((line, i) => ctx.fillText(line, labelX + 12, labelY + 8 + i * 40))
+      ctx.restore()
+    }
+
+    // Draw the box being dragged out to select points
+    if (options.editing && selectionBox) {
+      ctx.save()
+      ctx.strokeStyle = SELECTION_BOX_COLOR
+      ctx.lineWidth = 3
+      ctx.setLineDash([12, 8])
+      ctx.strokeRect(selectionBox.start.x, selectionBox.start.y, selectionBox.end.x - selectionBox.start.x, selectionBox.end.y - selectionBox.start.y)
+      ctx.restore()
+    }
+
     // Draw exit-direction arrows at each point (pointing toward the next point)
     if (showArrows && points.length > 0) {
-      const pixelsPerInch = image.width / 144
+      const pixelsPerInch = getPixelsPerInch(fieldPreset.calibration)
       const arrowLenInches = ARROW_MAIN_LENGTH_IN // arrow length in inches
       const arrowLen = arrowLenInches * pixelsPerInch
 
@@ -209,17 +647,9 @@ function App() {
         const p = points[i]
         const center = fieldToPixelCoords(p.fieldX, p.fieldY)
 
-        // determine exit direction: for last point use its theta; for others use angle to next point
-        let angle = 0
-        if (i < points.length - 1) {
-          // Point to next point
-          const next = points[i + 1]
-          angle = Math.atan2(next.y - p.y, next.x - p.x)
-        } else {
-          // Last point: use stored theta value
-          const thetaDeg = points[i].theta
-          angle = (thetaDeg - 90) * (Math.PI / 180)
-        }
+        // determine exit direction: for last point use its theta; for others the direction the next segment leaves in
+        // conversion from heading to canvas angle: angle = (theta - 90) * PI / 180
+        const angle = (getEffectiveTheta(points, i) - 90) * (Math.PI / 180)
 
         // Arrow starts from center of circle and extends outward
         const startX = center.x
@@ -263,18 +693,85 @@ function App() {
       }
     }
 
+    // Outline of the robot body at a pose, with a line out of the tracking center toward the front
+    const strokePoseOutline = (pose: RobotPose) => {
+      tracePolygon(getRobotCorners(pose, robot))
+      ctx.stroke()
+      const radians = (pose.facing * Math.PI) / 180
+      const center = fieldToPixelCoords(pose.fieldX, pose.fieldY)
+      const front = fieldToPixelCoords(pose.fieldX + Math.sin(radians) * ARROW_MAIN_LENGTH_IN, pose.fieldY + Math.cos(radians) * ARROW_MAIN_LENGTH_IN)
+      ctx.beginPath()
+      ctx.moveTo(center.x, center.y)
+      ctx.lineTo(front.x, front.y)
+      ctx.stroke()
+    }
+
+    // Draw the logged run, how far it was off at each waypoint, and where the robot was at the same time as the plan
+    if (options.editing && telemetry) {
+      ctx.save()
+      ctx.strokeStyle = TELEMETRY_COLOR
+      ctx.fillStyle = TELEMETRY_COLOR
+      ctx.lineWidth = TELEMETRY_LINE_WIDTH
+      ctx.lineJoin = 'round'
+      ctx.beginPath()
+      telemetry.samples.forEach((sample, i) => {
+        const pt = fieldToPixelCoords(sample.fieldX, sample.fieldY)
+        if (i === 0) ctx.moveTo(pt.x, pt.y)
+        else ctx.lineTo(pt.x, pt.y)
+      })
+      ctx.stroke()
+
+      ctx.setLineDash([8, 8])
+      ctx.lineWidth = 2
+      waypointErrors.forEach(error => {
+        const planned = points[error.pointIndex]
+        const actual = getTelemetryPose(telemetry.samples, error.time)
+        if (!planned || !actual) return
+        const from = fieldToPixelCoords(planned.fieldX, planned.fieldY)
+        const to = fieldToPixelCoords(actual.fieldX, actual.fieldY)
+        ctx.beginPath()
+        ctx.moveTo(from.x, from.y)
+        ctx.lineTo(to.x, to.y)
+        ctx.stroke()
+      })
+
+      const pose = getTelemetryPose(telemetry.samples, getElapsedFromProgress(options.progress))
+      if (pose) {
+        ctx.lineWidth = 3
+        strokePoseOutline({ fieldX: pose.fieldX, fieldY: pose.fieldY, facing: pose.theta })
+      }
+      ctx.restore()
+    }
+
+    // Draw where the robot says it is right now
+    if (options.editing && live.pose) {
+      ctx.save()
+      ctx.strokeStyle = LIVE_COLOR
+      ctx.lineWidth = 5
+      ctx.lineCap = 'round'
+      strokePoseOutline({ fieldX: live.pose.fieldX, fieldY: live.pose.fieldY, facing: live.pose.theta })
+      ctx.restore()
+    }
+
     // Draw robot
-    const displayProgress = hoveredPathProgress !== null ? hoveredPathProgress : !isRunning && lastHoveredProgress !== 0 ? lastHoveredProgress : robotProgress
-    const robotData = getRobotPositionAndRotation(displayProgress)
-    if (showBot && robotData && image) {
-      const pixelsPerInch = image.width / 144
-      const robotPixelWidth = botWidth * pixelsPerInch
-      const robotPixelLength = botLength * pixelsPerInch
+    let robotData = getRobotPositionAndRotation(options.progress)
+    // While turning in place, the simulated heading replaces the path direction
+    if (robotData && options.turn) {
+      const travel = points[options.turn.segment].forwards ? options.turn.facing : options.turn.facing + 180
+      robotData = { ...robotData, rotation: (travel - 90) * (Math.PI / 180), segment: options.turn.segment }
+    }
+    if (options.showRobot && robotData) {
+      const pixelsPerInch = getPixelsPerInch(fieldPreset.calibration)
+      const robotPixelWidth = robot.width * pixelsPerInch
+      const robotPixelLength = robot.length * pixelsPerInch
+      // The path is followed by the tracking center, so the body sits back from it by the tracking offset
+      const facing = points[robotData.segment].forwards ? robotData.rotation : robotData.rotation + Math.PI
 
       ctx.save()
       ctx.fillStyle = ROBOT_COLOR
       ctx.translate(robotData.x, robotData.y)
-      ctx.rotate(robotData.rotation)
+      ctx.rotate(facing)
+      ctx.translate(-robot.trackingOffset.forward * pixelsPerInch, -robot.trackingOffset.right * pixelsPerInch)
       ctx.fillRect(
         -robotPixelLength / 2,
         -robotPixelWidth / 2,
@@ -305,33 +802,8 @@ function App() {
 
       // Determine if robot is heading to a backwards point
       let arrowAngle = robotData.rotation
-      if (points.length >= 2) {
-        // Find which point the robot is heading towards based on progress
-        let totalLength = 0
-        const segmentLengths: number[] = []
-        for (let i = 0; i < points.length - 1; i++) {
-          const dx = points[i + 1].x - points[i].x
-          const dy = points[i + 1].y - points[i].y
-          const length = Math.sqrt(dx * dx + dy * dy)
-          segmentLengths.push(length)
-          totalLength += length
-        }
-
-        if (totalLength > 0) {
-          const targetDistance = totalLength * displayProgress
-          let currentDistance = 0
-
-          for (let i = 0; i < segmentLengths.length; i++) {
-            if (currentDistance + segmentLengths[i] >= targetDistance) {
-              // Robot is on segment i, heading to points[i+1]
-              if (!points[i + 1].forwards) {
-                arrowAngle = robotData.rotation + Math.PI
-              }
-              break
-            }
-            currentDistance += segmentLengths[i]
-          }
-        }
+      if (!points[robotData.segment].forwards) {
+        arrowAngle = robotData.rotation + Math.PI
       }
 
       // Draw the line
@@ -360,11 +832,45 @@ function App() {
       ctx.fill()
       ctx.restore()
     }
-  }, [image, points, hoveredId, selectedId, robotProgress, hoveredPathProgress, lastHoveredProgress, botLength, botWidth, showBot, showLines, showArrows, isRunning, showGuideCoordinates])
+  }
+
+  // Draw canvas
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !image) return
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    // Match the backing store to the screen's pixels so lines stay crisp at any zoom
+    const width = Math.round(canvasSize.width * canvasSize.pixelRatio)
+    const height = Math.round(canvasSize.height * canvasSize.pixelRatio)
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width
+      canvas.height = height
+    }
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    // Everything below is drawn in field image pixels through the zoom and pan
+    const scale = canvasView.scale * canvasSize.pixelRatio
+    ctx.setTransform(scale, 0, 0, scale, canvasView.offsetX * canvasSize.pixelRatio, canvasView.offsetY * canvasSize.pixelRatio)
+
+    // The robot shows the run at robotTime unless the mouse is on the path or left it somewhere
+    const atRobotTime = hoveredPathProgress === null && (isRunning || lastHoveredProgress === 0)
+    const state = simulationMode === 'physics' ? getSimulationState(simulationPlan, robotTime / 1000) : null
+    drawField(ctx, image, {
+      progress: atRobotTime ? getProgressFromElapsedTime(robotTime) : hoveredPathProgress ?? lastHoveredProgress,
+      // While turning in place, the simulated heading replaces the path direction
+      turn: atRobotTime && state && state.facing !== null ? { facing: state.facing, segment: state.segment } : null,
+      showRobot: showBot,
+      editing: true,
+    })
+  }, [image, points, importPreviewPoints, pathSamples, actionMarkers, hoveredId, selectedId, selection, selectionBox, robotTime, hoveredPathProgress, lastHoveredProgress, robot, showBot, showLines, showArrows, isRunning, showGuideCoordinates, showFieldElements, showSweptArea, sweeps, fieldLayout, fieldPreset, pendingCalibration, collisions, telemetry, waypointErrors, live.pose, simulationMode, simulationPlan, snapPreview, measure, canvasView.scale, canvasView.offsetX, canvasView.offsetY, canvasSize.width, canvasSize.height, canvasSize.pixelRatio])
 
-  // Calculate total simulation duration from point timeouts
+  // Calculate total simulation duration from point timeouts, or the drivetrain model in physics mode
   const getTotalSimulationDuration = () => {
     if (points.length < 2) return 0
+    if (simulationMode === 'physics') return simulationPlan.totalTime * 1000
     // Sum all timeout values (they're in milliseconds)
     let totalMs = 0
     for (let i = 0; i < points.length - 1; i++) {
@@ -376,11 +882,50 @@ function App() {
   // Get the progress along path based on time elapsed
   const getProgressFromElapsedTime = (elapsedMs: number) => {
     if (points.length < 2) return 0
-    const totalMs = getTotalSimulationDuration()
-    return totalMs > 0 ? Math.min(1, elapsedMs / totalMs) : 0
+    if (simulationMode === 'physics') {
+      const state = getSimulationState(simulationPlan, elapsedMs / 1000)
+      return state && simulationPlan.totalDistance > 0 ? state.distance / simulationPlan.totalDistance : 0
+    }
+    // Each move takes its point's timeout
+    const totalDistance = segmentEnds[points.length - 1] ?? 0
+    if (totalDistance === 0) return 0
+    let startMs = 0
+    for (let i = 1; i < points.length; i++) {
+      const duration = points[i].timeout
+      if (elapsedMs < startMs + duration || i === points.length - 1) {
+        const fraction = duration > 0 ? Math.min(Math.max((elapsedMs - startMs) / duration, 0), 1) : 1
+        const from = segmentEnds[i - 1] ?? 0
+        const to = segmentEnds[i] ?? from
+        return (from + (to - from) * fraction) / totalDistance
+      }
+      startMs += duration
+    }
+    return 0
   }
 
-  // Simulation loop: animate robotProgress from 0 -> 1 based on point timeouts
+  // Time into the run when the robot reaches a progress along the path, the inverse of getProgressFromElapsedTime
+  const getElapsedFromProgress = (progress: number) => {
+    const totalDistance = segmentEnds[points.length - 1] ?? 0
+    const distance = progress * totalDistance
+    if (simulationMode === 'physics') return getTimeAtDistance(simulationPlan, distance) * 1000
+    let startMs = 0
+    for (let i = 1; i < points.length; i++) {
+      const from = segmentEnds[i - 1] ?? 0
+      const to = segmentEnds[i] ?? from
+      if (distance <= to) return startMs + (to > from ? points[i].timeout * (distance - from) / (to - from) : 0)
+      startMs += points[i].timeout
+    }
+    return startMs
+  }
+
+  const robotProgress = getProgressFromElapsedTime(robotTime)
+
+  const seekRobotTime = (timeMs: number) => {
+    robotTimeRef.current = timeMs
+    setRobotTime(timeMs)
+  }
+
+  // Simulation loop: advance robotTime based on point timeouts or the physics plan
   useEffect(() => {
     if (!isRunning) {
       if (rafRef.current) {
@@ -397,15 +942,14 @@ function App() {
       return
     }
 
-    const startTime = performance.now()
-
+    // Carry on from where the run was paused or seeked to, also when the route changes mid-run
     const step = (time: number) => {
-      const elapsedMs = time - startTime
-      const progress = getProgressFromElapsedTime(elapsedMs)
-
-      setRobotProgress(progress)
+      const frameMs = lastTimeRef.current === null ? 0 : time - lastTimeRef.current
+      lastTimeRef.current = time
+      const elapsedMs = Math.min(robotTimeRef.current + frameMs, totalMs)
+      seekRobotTime(elapsedMs)
 
-      if (progress >= 1) {
+      if (elapsedMs >= totalMs) {
         // stop when reached end and hide bot
         setIsRunning(false)
         setShowBot(false)
@@ -419,95 +963,487 @@ function App() {
     return () => {
       if (rafRef.current) cancelAnimationFrame(rafRef.current)
       rafRef.current = null
+      lastTimeRef.current = null
     }
-  }, [isRunning, points])
+  }, [isRunning, points, simulationMode, simulationPlan])
 
-  // Handle Delete key to remove selected point
+  // Handle Delete key to remove the selected points
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Only delete when the canvas is focused to avoid removing points while typing in inputs
       const active = document.activeElement
       const canvasEl = canvasRef.current as HTMLCanvasElement | null
-      if ((e.key === 'Backspace' || e.key === 'Delete') && selectedId !== null && active === canvasEl) {
-        setPoints(points.filter(p => p.id !== selectedId))
+      if ((e.key === 'Backspace' || e.key === 'Delete') && selection.length > 0 && active === canvasEl) {
+        setPoints(deletePoints(points, selection))
         setSelectedId(null)
+        setSelectedIds([])
       }
     }
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [selectedId, points])
+  }, [selection, points, setPoints])
 
-  // Log points whenever they change
+  // Hold Space to pan with the left mouse button
   useEffect(() => {
-    console.log(points)
-  }, [points])
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return
+      const active = document.activeElement
+      if (active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement || active instanceof HTMLButtonElement) return
+      e.preventDefault()
+      setSpaceHeld(e.type === 'keydown')
+    }
 
-  // Get canvas coordinates from mouse event
-  const getCanvasCoords = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current
-    if (!canvas) return { x: 0, y: 0 }
+    window.addEventListener('keydown', handleKey)
+    window.addEventListener('keyup', handleKey)
+    return () => {
+      window.removeEventListener('keydown', handleKey)
+      window.removeEventListener('keyup', handleKey)
+    }
+  }, [])
 
-    const rect = canvas.getBoundingClientRect()
-    const mouseX = e.clientX - rect.left
-    const mouseY = e.clientY - rect.top
+  // Handle Ctrl+C / Ctrl+V (Cmd on macOS) to copy the selected points and paste them after the selection
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const key = e.key.toLowerCase()
+      if (key !== 'c' && key !== 'v') return
+      // Leave text fields their own clipboard
+      const active = document.activeElement
+      if (active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement) return
+      if (key === 'c') {
+        if (selection.length === 0) return
+        clipboardRef.current = points.filter(p => selection.includes(p.id))
+      } else {
+        const copied = clipboardRef.current
+        if (copied.length === 0) return
+        const afterIndex = selection.length > 0 ? Math.max(...selection.map(id => points.findIndex(p => p.id === id))) : points.length - 1
+        const pastedIds = copied.map((_, i) => nextId + i)
+        setPoints(pastePoints(points, copied, afterIndex, nextId))
+        setNextId(nextId + copied.length)
+        setSelectedId(pastedIds[0])
+        setSelectedIds(pastedIds)
+      }
+      e.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [selection, points, nextId, setPoints])
+
+  // Handle Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) for undo and redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return
+      // Leave text fields their own undo
+      const active = document.activeElement
+      if (active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement) return
+      e.preventDefault()
+      if (e.shiftKey) redo()
+      else undo()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
 
-    // Scale to canvas internal resolution
-    const scaleX = canvas.width / rect.width
-    const scaleY = canvas.height / rect.height
+  // The library with the route being edited brought up to date, along with the routes linked to it
+  const currentLibrary = useMemo<RouteLibrary>(() => ({
+    ...library,
+    routes: syncLinkedRoutes(library.routes.map(r =>
+      r.id === library.activeId ? { ...r, points, field: fieldImageSrc, robot } : r
+    ), library.activeId)
+  }), [library, points, fieldImageSrc, robot])
 
+  // Autosave every change to localStorage
+  useEffect(() => {
+    saveLibrary(currentLibrary)
+  }, [currentLibrary])
+
+  // Load a route from the library into the editor
+  const openRoute = (route: SavedRoute, routes: SavedRoute[]) => {
+    setLibrary({ routes, activeId: route.id })
+    resetPoints(route.points)
+    setFieldImageSrc(route.field)
+    setRobot(route.robot)
+    setNextId(Math.max(...route.points.map(p => p.id), -1) + 1)
+    setSelectedId(null)
+    setSelectedIds([])
+    seekRobotTime(0)
+    setLastHoveredProgress(0)
+  }
+
+  const handleSelectRoute = (id: string) => {
+    const route = currentLibrary.routes.find(r => r.id === id)
+    if (route && id !== library.activeId) openRoute(route, currentLibrary.routes)
+  }
+
+  const handleCreateRoute = () => {
+    // New routes start on the current field with the current robot
+    const route = createRoute(`Route ${currentLibrary.routes.length + 1}`, { field: fieldImageSrc, robot })
+    openRoute(route, [...currentLibrary.routes, route])
+  }
+
+  const handleDuplicateRoute = () => {
+    const active = getActiveRoute(currentLibrary)
+    const route = createRoute(`${active.name} copy`, { points: active.points, field: active.field, robot: active.robot })
+    openRoute(route, [...currentLibrary.routes, route])
+  }
+
+  const handleRenameRoute = () => {
+    const active = getActiveRoute(currentLibrary)
+    const name = prompt('Route name', active.name)?.trim()
+    if (!name) return
+    setLibrary({ ...library, routes: library.routes.map(r => r.id === active.id ? { ...r, name } : r) })
+  }
+
+  // A transformed copy that keeps following the active route, e.g. the blue side of a red auton
+  const handleLinkedCopy = (transform: RouteTransform) => {
+    const active = getActiveRoute(currentLibrary)
+    const label = ROUTE_TRANSFORMS.find(t => t.value === transform)?.label
+    const route = createRoute(`${active.name} (${label})`, {
+      points: transformPoints(active.points, transform),
+      field: active.field,
+      robot: active.robot,
+      link: { sourceId: active.id, transform },
+    })
+    openRoute(route, [...currentLibrary.routes, route])
+  }
+
+  const handleUnlinkRoute = () => {
+    setLibrary({ ...library, routes: library.routes.map(r => r.id === library.activeId ? { ...r, link: undefined } : r) })
+  }
+
+  const handleDeleteRoute = () => {
+    const active = getActiveRoute(currentLibrary)
+    if (!confirm(`Delete "${active.name}"? This cannot be undone.`)) return
+    // Copies linked to the deleted route keep their points as plain routes
+    const remaining = currentLibrary.routes
+      .filter(r => r.id !== active.id)
+      .map(r => r.link?.sourceId === active.id ? { ...r, link: undefined } : r)
+    if (remaining.length === 0) {
+      const route = createRoute('Route 1', { field: fieldImageSrc, robot })
+      openRoute(route, [route])
+    } else {
+      openRoute(remaining[0], remaining)
+    }
+  }
+
+  // Saved robot profiles are shared by all routes, each route keeps its own copy of the robot it uses
+  useEffect(() => {
+    saveRobotProfiles(robotProfiles)
+  }, [robotProfiles])
+
+  const handleSelectRobot = (id: string) => {
+    const profile = robotProfiles.find(p => p.id === id)
+    if (profile) setRobot(profile)
+  }
+
+  const handleSaveRobot = () => {
+    if (robotProfiles.some(p => p.id === robot.id)) {
+      setRobotProfiles(robotProfiles.map(p => p.id === robot.id ? robot : p))
+    } else {
+      setRobotProfiles([...robotProfiles, robot])
+    }
+  }
+
+  const handleCreateRobot = () => {
+    const name = prompt('Robot name', `${robot.name} copy`)?.trim()
+    if (!name) return
+    const profile = createRobotProfile(name, robot)
+    setRobotProfiles([...robotProfiles, profile])
+    setRobot(profile)
+  }
+
+  const handleDeleteRobot = () => {
+    if (!confirm(`Delete the saved profile "${robot.name}"? Routes using it keep their copy.`)) return
+    setRobotProfiles(robotProfiles.filter(p => p.id !== robot.id))
+  }
+
+  // Read an uploaded field image and start clicking its corners
+  const handleFieldImageFile = (file: File) => {
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      const dataUrl = event.target?.result as string
+      const img = new Image()
+      img.onload = () => {
+        setPendingCalibration({
+          name: file.name.replace(/\.[^.]+$/, ''),
+          image: dataUrl,
+          width: img.naturalWidth,
+          height: img.naturalHeight,
+          layout: fieldLayout,
+          cornerCount: 2,
+          clicks: [],
+        })
+        setMeasure(null)
+        viewport.fit()
+      }
+      img.onerror = () => alert('Failed to read the field image')
+      img.src = dataUrl
+    }
+    reader.readAsDataURL(file)
+  }
+
+  const handleSaveCalibration = () => {
+    if (!pendingCalibration) return
+    const { name, image: dataUrl, width, height, layout, cornerCount, clicks } = pendingCalibration
+    const corners = cornersFromClicks(clicks, cornerCount)
+    if (!corners || getCalibrationProblem(corners)) return
+    const preset: FieldPreset = {
+      id: createId(),
+      name: name.trim(),
+      image: dataUrl,
+      calibration: {
+        width,
+        height,
+        corners,
+      },
+      layout,
+    }
+    const presets = [...customFields, preset]
+    if (!saveFieldPresets(presets)) {
+      alert('The field image is too large to keep in browser storage, it will be gone after reloading the page')
+    }
+    setCustomFields(presets)
+    setFieldImageSrc(preset.id)
+    setPendingCalibration(null)
+    viewport.fit()
+  }
+
+  const handleDeleteField = () => {
+    if (!confirm(`Delete the field "${fieldPreset.name}"? Routes using it switch to ${BUILTIN_FIELDS[0].name}.`)) return
+    const presets = customFields.filter(f => f.id !== fieldPreset.id)
+    saveFieldPresets(presets)
+    setCustomFields(presets)
+    setFieldImageSrc(BUILTIN_FIELDS[0].id)
+  }
+
+  // Copy a link that opens the current route for someone else
+  const handleShareRoute = async () => {
+    let url: string
+    try {
+      url = buildShareUrl(await encodeShareData(getActiveRoute(currentLibrary)))
+    } catch (err) {
+      console.warn('Failed to create share link', err)
+      alert('Failed to create share link')
+      return
+    }
+    try {
+      await navigator.clipboard.writeText(url)
+      alert('Share link copied to clipboard')
+    } catch {
+      prompt('Copy this share link', url)
+    }
+  }
+
+  // File names start with the date like the JSON download, then the route name
+  const getExportFileName = (extension: string) => {
+    const dateStr = new Date().toISOString().split('T')[0].replace(/-/g, '')
+    const name = getActiveRoute(currentLibrary).name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+    return `${dateStr}-${name || 'v5rc-route'}.${extension}`
+  }
+
+  // A canvas with the route drawn on the field as exports show it, scaled from field image pixels
+  const createExportCanvas = (fieldImage: HTMLImageElement, scale: number) => {
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(fieldImage.naturalWidth * scale)
+    canvas.height = Math.round(fieldImage.naturalHeight * scale)
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })
+    if (!ctx) throw new Error('Could not create a canvas to draw on')
+    const draw = (options: Omit<FieldDrawOptions, 'editing'>) => {
+      ctx.setTransform(scale, 0, 0, scale, 0, 0)
+      ctx.clearRect(0, 0, fieldImage.naturalWidth, fieldImage.naturalHeight)
+      drawField(ctx, fieldImage, { ...options, editing: false })
+    }
+    return { canvas, ctx, draw }
+  }
+
+  // Where the robot is a time into the Run simulation
+  const getExportFrame = (elapsedMs: number) => {
+    const state = simulationMode === 'physics' ? getSimulationState(simulationPlan, elapsedMs / 1000) : null
     return {
-      x: mouseX * scaleX,
-      y: mouseY * scaleY
+      progress: getProgressFromElapsedTime(elapsedMs),
+      turn: state && state.facing !== null ? { facing: state.facing, segment: state.segment } : null,
+      showRobot: true,
     }
   }
 
-  // Convert pixel coordinates to field coordinates (144x144 inch field, centered at 0,0)
-  const pixelToFieldCoords = (pixelX: number, pixelY: number) => {
-    if (!image) return { fieldX: 0, fieldY: 0 }
+  // The still exports show the robot at the start of the route
+  const START_FRAME = { progress: 0, turn: null, showRobot: true }
 
-    // Image is 2000x2000 pixels, but field area is 1932x1932 pixels (wall padding of 34px on each side)
-    // The 1932x1932 field represents a 144x144 inch field
-    const fieldPixelSize = 1932
-    const fieldInchSize = 144
-    const wallPadding = (image.width - fieldPixelSize) / 2
+  const exportPng = async (fieldImage: HTMLImageElement) => {
+    const { canvas, draw } = createExportCanvas(fieldImage, 1)
+    draw(START_FRAME)
+    downloadBlob(await canvasToBlob(canvas, 'image/png'), getExportFileName('png'))
+  }
 
-    const centerX = wallPadding + fieldPixelSize / 2
-    const centerY = wallPadding + fieldPixelSize / 2
-    const pixelsPerInch = fieldPixelSize / fieldInchSize
+  const exportPdf = async (fieldImage: HTMLImageElement) => {
+    const { canvas, draw } = createExportCanvas(fieldImage, 1)
+    draw(START_FRAME)
+    const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.9)).arrayBuffer())
+    const generator = getCodeGenerator(codeTarget)
+    const sheet: RouteSheet = {
+      title: getActiveRoute(currentLibrary).name,
+      details: [
+        `Field: ${fieldPreset.name}`,
+        `Robot: ${robot.name} (${robot.width} x ${robot.length} in)`,
+        `${points.length} points`,
+        `${(getTotalSimulationDuration() / 1000).toFixed(1)} s`,
+        `Code: ${generator.label}`,
+      ],
+      field: { jpeg, width: canvas.width, height: canvas.height },
+      table: {
+        header: ['#', 'X', 'Y', 'Heading', 'Motion', 'Direction', 'Speed', 'Timeout', 'Actions'],
+        // Numbered from 0 like the points on the field, with the heading the robot actually ends at
+        rows: points.map((p, i) => [
+          String(i),
+          String(round1(p.fieldX)),
+          String(round1(p.fieldY)),
+          `${round1(getEffectiveTheta(points, i))}°`,
+          p.motion,
+          p.forwards ? 'forwards' : 'backwards',
+          String(p.speed),
+          `${p.timeout} ms`,
+          p.actions.map(describeAction).join(', '),
+        ]),
+      },
+      // Generators end moves with '\n' spacer lines, which become blank lines on paper
+      code: generatedCodeLines.flatMap(c => c.line.replace(/\n$/, '').split('\n')),
+    }
+    downloadBlob(buildRouteSheetPdf(sheet), getExportFileName('pdf'))
+  }
 
-    const fieldX = (pixelX - centerX) / pixelsPerInch
-    const fieldY = (centerY - pixelY) / pixelsPerInch // Invert Y because canvas Y increases downward
+  // Encoded a frame at a time, yielding between frames so the page can show progress
+  const exportGif = async (fieldImage: HTMLImageElement) => {
+    const totalMs = getTotalSimulationDuration()
+    const { canvas, ctx, draw } = createExportCanvas(fieldImage, EXPORT_GIF_WIDTH / fieldImage.naturalWidth)
+    const encoder = createGifEncoder(canvas.width, canvas.height, 1000 / EXPORT_GIF_FPS)
+    const frameCount = Math.ceil(totalMs / 1000 * EXPORT_GIF_FPS) + 1
+    for (let i = 0; i < frameCount; i++) {
+      setExportStatus(`Rendering GIF frame ${i + 1} of ${frameCount}`)
+      await new Promise(resolve => setTimeout(resolve, 0))
+      draw(getExportFrame(Math.min(i * 1000 / EXPORT_GIF_FPS, totalMs)))
+      encoder.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data)
+    }
+    downloadBlob(encoder.finish(), getExportFileName('gif'))
+  }
 
-    return { fieldX, fieldY }
+  // Recorded as the simulation plays, so it takes as long as the run
+  const exportWebm = async (fieldImage: HTMLImageElement) => {
+    if (!canRecordWebm()) throw new Error('This browser cannot record WebM video')
+    const totalMs = getTotalSimulationDuration()
+    const { canvas, draw } = createExportCanvas(fieldImage, Math.min(1, EXPORT_WEBM_WIDTH / fieldImage.naturalWidth))
+    setExportStatus(`Recording ${(totalMs / 1000).toFixed(1)} s of video`)
+    const blob = await recordWebm(canvas, EXPORT_WEBM_FPS, totalMs, (elapsedMs) => draw(getExportFrame(elapsedMs)))
+    downloadBlob(blob, getExportFileName('webm'))
   }
 
-  // Convert field coordinates back to pixel coordinates
-  const fieldToPixelCoords = (fieldX: number, fieldY: number) => {
-    if (!image) return { x: 0, y: 0 }
+  const handleExport = async (label: string, exporter: (fieldImage: HTMLImageElement) => Promise<void>) => {
+    setShowExportMenu(false)
+    if (!image || exportStatus !== null) return
+    setExportStatus(`Exporting ${label}`)
+    try {
+      await exporter(image)
+    } catch (err) {
+      console.warn(`Failed to export ${label}`, err)
+      alert(`Failed to export ${label}:\n\n${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setExportStatus(null)
+    }
+  }
+
+  // Read a path.jerryio project or LemLib path file into a preview
+  const handlePathFile = (fileName: string, text: string) => {
+    try {
+      if (isJerryioProject(text)) {
+        const paths = parseJerryioProject(text).filter(p => p.points.length > 0)
+        if (paths.length === 0) throw new Error('Project has no paths')
+        setPendingImport({ kind: 'jerryio', fileName, paths, pathIndex: 0 })
+      } else {
+        setPendingImport({ kind: 'lemlib', fileName, samples: parseLemlibPath(text), tolerance: 2 })
+      }
+    } catch (err) {
+      console.warn('Failed to read path file', err)
+      alert('Failed to read path file, expected a path.jerryio project or a LemLib path')
+    }
+  }
+
+  // Teach a waypoint by pushing the robot there, it keeps the heading the robot reports
+  const captureLivePose = () => {
+    if (!live.pose) return
+    const newPoint = createPoint({ fieldX: round1(live.pose.fieldX), fieldY: round1(live.pose.fieldY) }, nextId, { theta: round1(live.pose.theta) })
+    setPoints([...points, newPoint])
+    setNextId(nextId + 1)
+    selectPoint(newPoint.id, false)
+  }
+
+  const handleTelemetryFile = (fileName: string, text: string) => {
+    try {
+      setTelemetry({ fileName, samples: parseTelemetryLog(text) })
+    } catch (err) {
+      console.warn('Failed to read odometry log', err)
+      alert('Failed to read odometry log, expected CSV or JSON with timestamp, x, y and theta')
+    }
+  }
+
+  const confirmPathImport = () => {
+    setPoints(importPreviewPoints)
+    setNextId(importPreviewPoints.length)
+    setSelectedId(null)
+    setSelectedIds([])
+    setPendingImport(null)
+  }
+
+  // Log points whenever they change
+  useEffect(() => {
+    console.log(points)
+  }, [points])
+
+  // Get canvas coordinates from mouse event
+  const getCanvasCoords = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current
+    if (!canvas) return { x: 0, y: 0 }
 
-    // Image is 2000x2000 pixels, but field area is 1932x1932 pixels (wall padding of 34px on each side)
-    // The 1932x1932 field represents a 144x144 inch field
-    const fieldPixelSize = 1932
-    const fieldInchSize = 144
-    const wallPadding = (image.width - fieldPixelSize) / 2
+    const rect = canvas.getBoundingClientRect()
+    // Undo the zoom and pan to get field image pixels
+    return viewport.toContent(e.clientX - rect.left, e.clientY - rect.top)
+  }
+
+  // Convert pixel coordinates of the shown field image to field coordinates (144x144 inch field, centered at 0,0)
+  // Points keep x and y in the bundled images' pixels, everything on the canvas goes through the active calibration
+  const pixelToFieldCoords = (pixelX: number, pixelY: number) => {
+    return pixelToField(pixelX, pixelY, fieldPreset.calibration)
+  }
 
-    const centerX = wallPadding + fieldPixelSize / 2
-    const centerY = wallPadding + fieldPixelSize / 2
-    const pixelsPerInch = fieldPixelSize / fieldInchSize
+  // Convert field coordinates back to pixel coordinates of the shown field image
+  const fieldToPixelCoords = (fieldX: number, fieldY: number) => {
+    return fieldToPixel(fieldX, fieldY, fieldPreset.calibration)
+  }
 
-    const x = fieldX * pixelsPerInch + centerX
-    const y = centerY - fieldY * pixelsPerInch
+  // Hit distance in image pixels, at least a fingertip wide on screen for touch and pen
+  const getHitRadius = (radius: number) => {
+    if (pointerTypeRef.current === 'mouse') return radius
+    return Math.max(radius, TOUCH_TARGET_RADIUS / canvasView.scale)
+  }
 
-    return { x, y }
+  // The point drawn under a position on the canvas
+  const getPointAt = (x: number, y: number) => {
+    const radius = getHitRadius(POINT_RADIUS)
+    return points.find(p => {
+      const center = fieldToPixelCoords(p.fieldX, p.fieldY)
+      return Math.hypot(center.x - x, center.y - y) < radius
+    })
   }
 
   // Update selected point's field coordinates
   const updateSelectedPointFieldCoords = (fieldX: number, fieldY: number) => {
     if (selectedId === null) return
 
-    const { x, y } = fieldToPixelCoords(fieldX, fieldY)
-    setPoints(points.map(p =>
+    const { x, y } = fieldToPixel(fieldX, fieldY)
+    const selected = points.find(p => p.id === selectedId)
+    if (!selected) return
+    setPoints(shiftAttachedControls(points, selectedId, fieldX - selected.fieldX, fieldY - selected.fieldY).map(p =>
       p.id === selectedId ? { ...p, x, y, fieldX, fieldY, theta: p.theta } : p
     ))
   }
@@ -516,66 +1452,40 @@ function App() {
   const getRobotPositionAndRotation = (progress: number) => {
     if (points.length < 2) return null
 
-    // Calculate total path length
-    let totalLength = 0
-    const segmentLengths: number[] = []
-
-    for (let i = 0; i < points.length - 1; i++) {
-      const dx = points[i + 1].x - points[i].x
-      const dy = points[i + 1].y - points[i].y
-      const length = Math.sqrt(dx * dx + dy * dy)
-      segmentLengths.push(length)
-      totalLength += length
-    }
-
+    const totalLength = pathSamples[pathSamples.length - 1].distance
     if (totalLength === 0) return null
 
     // Find position at progress (0 to 1)
-    const targetDistance = totalLength * progress
-    let currentDistance = 0
-
-    for (let i = 0; i < segmentLengths.length; i++) {
-      if (currentDistance + segmentLengths[i] >= targetDistance) {
-        const segmentProgress = (targetDistance - currentDistance) / segmentLengths[i]
-        const x = points[i].x + (points[i + 1].x - points[i].x) * segmentProgress
-        const y = points[i].y + (points[i + 1].y - points[i].y) * segmentProgress
-
-        // Calculate rotation (direction towards next point)
-        const dx = points[i + 1].x - points[i].x
-        const dy = points[i + 1].y - points[i].y
-        const rotation = Math.atan2(dy, dx)
-
-        return { x, y, rotation }
-      }
-      currentDistance += segmentLengths[i]
-    }
+    const pose = getPoseAtDistance(points, pathSamples, totalLength * progress)
+    const { x, y } = fieldToPixelCoords(pose.fieldX, pose.fieldY)
 
-    // At the end, use the last point's theta (converted from degrees to radians)
-    // theta: 0=up, 90=right, 180=down, 270=left
+    // heading: 0=up, 90=right, 180=down, 270=left
     // In canvas: atan2(dy, dx) gives 0=right, π/2=down, ±π=left, -π/2=up
-    // conversion: rotation = (theta - 90) * PI / 180
-    const thetaDeg = points[points.length - 1].theta
-    const rotation = (thetaDeg - 90) * (Math.PI / 180)
-    return { x: points[points.length - 1].x, y: points[points.length - 1].y, rotation }
+    // conversion: rotation = (heading - 90) * PI / 180
+    const rotation = (pose.heading - 90) * (Math.PI / 180)
+    return { x, y, rotation, segment: pose.segment }
   }
 
   // Find closest point on path to mouse position
   const getClosestPointOnPath = (mouseX: number, mouseY: number) => {
     if (points.length < 2) return null
 
+    const totalDistance = pathSamples[pathSamples.length - 1].distance
     let closestPoint = null
     let closestDistance = Infinity
     let closestProgress = 0
+    let closestSegment = 1
 
-    // Check each segment
-    for (let i = 0; i < points.length - 1; i++) {
-      const p1 = points[i]
-      const p2 = points[i + 1]
+    // Check each sampled piece of the path
+    for (let i = 1; i < pathSamples.length; i++) {
+      const p1 = fieldToPixelCoords(pathSamples[i - 1].fieldX, pathSamples[i - 1].fieldY)
+      const p2 = fieldToPixelCoords(pathSamples[i].fieldX, pathSamples[i].fieldY)
 
       // Find closest point on line segment
       const dx = p2.x - p1.x
       const dy = p2.y - p1.y
       const lenSq = dx * dx + dy * dy
+      if (lenSq === 0) continue
 
       let t = ((mouseX - p1.x) * dx + (mouseY - p1.y) * dy) / lenSq
       t = Math.max(0, Math.min(1, t))
@@ -590,63 +1500,133 @@ function App() {
         closestPoint = { x: closestX, y: closestY }
 
         // Calculate progress along entire path
-        let pathDistance = 0
-        for (let j = 0; j < i; j++) {
-          const segDx = points[j + 1].x - points[j].x
-          const segDy = points[j + 1].y - points[j].y
-          pathDistance += Math.sqrt(segDx * segDx + segDy * segDy)
-        }
-        pathDistance += t * Math.sqrt(lenSq)
+        const pathDistance = pathSamples[i - 1].distance + t * (pathSamples[i].distance - pathSamples[i - 1].distance)
+        closestProgress = totalDistance > 0 ? pathDistance / totalDistance : 0
+        closestSegment = pathSamples[i].segment
+      }
+    }
 
-        let totalDistance = 0
-        for (let j = 0; j < points.length - 1; j++) {
-          const segDx = points[j + 1].x - points[j].x
-          const segDy = points[j + 1].y - points[j].y
-          totalDistance += Math.sqrt(segDx * segDx + segDy * segDy)
-        }
+    return closestDistance < 50 ? { point: closestPoint, progress: closestProgress, distance: closestDistance, segment: closestSegment } : null
+  }
 
-        closestProgress = totalDistance > 0 ? pathDistance / totalDistance : 0
+  // Find the bezier handle under the mouse, if any
+  const getHandleAt = (x: number, y: number) => {
+    const radius = getHitRadius(HANDLE_RADIUS)
+    for (const p of points) {
+      if (p.motion !== 'bezier' || !p.controls) continue
+      for (const h of [0, 1] as const) {
+        const handle = fieldToPixelCoords(p.controls[h].fieldX, p.controls[h].fieldY)
+        if (Math.hypot(handle.x - x, handle.y - y) < radius) return { id: p.id, handle: h }
       }
     }
+    return null
+  }
+
+  // Change how the robot travels into the selected point
+  const updateSelectedPointMotion = (motion: MotionType) => {
+    const index = points.findIndex(p => p.id === selectedId)
+    if (index <= 0) return
+    const prev = points[index - 1]
+    setPoints(points.map(p => {
+      if (p.id !== selectedId) return p
+      // Start a new curve from the current shape of the segment
+      const controls = motion === 'bezier' && !p.controls ? getDefaultControls(prev, p) : p.controls
+      // A new pose target keeps the heading the robot currently arrives with
+      const theta = motion === 'pose' && p.motion !== 'pose' && index < points.length - 1
+        ? Math.round(facingHeading(getSegmentEndHeading(prev, p), p.forwards))
+        : p.theta
+      return { ...p, motion, controls, theta }
+    }))
+  }
+
+  // Snap the field position under the mouse, previous is the point before the one being placed or dragged
+  const snapAt = (x: number, y: number, previous: FieldPosition | null) => {
+    return snapPosition(pixelToFieldCoords(x, y), previous, snap, fieldFeatures[fieldLayout] ?? [])
+  }
+
+  // Select a point, or with additive (shift) add it to or remove it from the selection
+  const selectPoint = (id: number, additive: boolean) => {
+    if (!additive) {
+      setSelectedId(id)
+      setSelectedIds([id])
+      return
+    }
+    const ids = selection.includes(id) ? selection.filter(s => s !== id) : [...selection, id]
+    setSelectedIds(ids)
+    setSelectedId(ids.includes(selectedId ?? -1) ? selectedId : ids[ids.length - 1] ?? null)
+  }
+
+  // Where a ruler end lands: on a point when clicking one, otherwise where the mouse snaps to
+  const getMeasureTarget = (x: number, y: number): FieldPosition => {
+    const point = getPointAt(x, y)
+    return point ? { fieldX: point.fieldX, fieldY: point.fieldY } : snapAt(x, y, null).position
+  }
 
-    return closestDistance < 50 ? { point: closestPoint, progress: closestProgress } : null
+  // Split a segment at a position, the new point keeps the segment's direction and speed
+  const insertPointOnSegment = (position: FieldPosition, segment: number) => {
+    const to = points[segment]
+    const newPoint = createPoint({ fieldX: round1(position.fieldX), fieldY: round1(position.fieldY) }, nextId, { forwards: to.forwards, speed: to.speed, timeout: to.timeout })
+    setPoints(insertPoint(points, segment, newPoint))
+    setNextId(nextId + 1)
+    selectPoint(newPoint.id, false)
   }
 
   // Handle canvas click
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    // Space-drags pan the view instead
+    if (spaceHeld) return
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false
+      return
+    }
+
     const { x, y } = getCanvasCoords(e)
 
+    // Calibration clicks place the field corners in order
+    if (pendingCalibration) {
+      if (pendingCalibration.clicks.length < pendingCalibration.cornerCount) {
+        setPendingCalibration({ ...pendingCalibration, clicks: [...pendingCalibration.clicks, { x, y }] })
+      }
+      return
+    }
+
+    // The first click starts a ruler, the second fixes its end
+    if (measureMode) {
+      const target = getMeasureTarget(x, y)
+      if (measure && !measure.fixed) setMeasure({ ...measure, end: target, fixed: true })
+      else setMeasure({ start: target, end: target, fixed: false })
+      return
+    }
+
+    // The click ending a drag keeps a group that was moved together
+    const dragMoved = dragMovedRef.current
+    dragMovedRef.current = false
+
+    // Clicks on bezier handles only drag them
+    if (getHandleAt(x, y)) return
+
     // Check if clicking on existing point
-    const clickedPoint = points.find(
-      p => Math.hypot(p.x - x, p.y - y) < POINT_RADIUS
-    )
+    const clickedPoint = getPointAt(x, y)
 
     if (clickedPoint) {
-      setSelectedId(clickedPoint.id)
+      if (dragMoved && selection.includes(clickedPoint.id)) return
+      selectPoint(clickedPoint.id, e.shiftKey)
+    } else if (e.shiftKey) {
+      // Shift is for selecting, box selection is handled on mouse up
+      return
     } else {
-      const { fieldX, fieldY } = pixelToFieldCoords(x, y)
+      const pathHit = getClosestPointOnPath(x, y)
 
-      // Round field coordinates to 2 decimal places and place the point
-      const fieldXR = Math.round(fieldX * 10) / 10
-      const fieldYR = Math.round(fieldY * 10) / 10
-
-      // Convert back to pixel coordinates so the point is drawn exactly at the rounded field coords
-      const { x: px, y: py } = fieldToPixelCoords(fieldXR, fieldYR)
-
-      const newPoint: Point = {
-        x: px,
-        y: py,
-        fieldX: fieldXR,
-        fieldY: fieldYR,
-        id: nextId,
-        theta: 0,
-        timeout: 1000,
-        speed: 70,
-        forwards: true
+      if (pathHit?.point && pathHit.distance <= getHitRadius(PATH_INSERT_DISTANCE)) {
+        // Split the segment under the mouse
+        insertPointOnSegment(pixelToFieldCoords(pathHit.point.x, pathHit.point.y), pathHit.segment)
+      } else {
+        // Snap (or round to 0.1 in) and place the point
+        const newPoint = createPoint(snapAt(x, y, points[points.length - 1] ?? null).position, nextId)
+        setPoints([...points, newPoint])
+        setNextId(nextId + 1)
+        selectPoint(newPoint.id, false)
       }
-      setPoints([...points, newPoint])
-      setNextId(nextId + 1)
-      setSelectedId(nextId)
       // focus the canvas so keyboard actions like Delete/Backspace only apply when canvas is focused
       if (canvasRef.current && typeof (canvasRef.current as HTMLCanvasElement).focus === 'function') {
         (canvasRef.current as HTMLCanvasElement).focus()
@@ -654,27 +1634,136 @@ function App() {
     }
   }
 
-  // Handle mouse down for dragging
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  // Open the actions for the point or the spot on the path under a client position
+  const openContextMenu = (clientX: number, clientY: number) => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const rect = canvas.getBoundingClientRect()
+    const { x, y } = viewport.toContent(clientX - rect.left, clientY - rect.top)
+    const point = getPointAt(x, y)
+    const pathHit = point ? null : getClosestPointOnPath(x, y)
+    const onPath = pathHit?.point && pathHit.distance <= getHitRadius(PATH_INSERT_DISTANCE)
+    if (!point && !onPath) return
+    if (point && !selection.includes(point.id)) selectPoint(point.id, false)
+    setContextMenu({
+      left: canvas.offsetLeft + clientX - rect.left,
+      top: canvas.offsetTop + clientY - rect.top,
+      pointId: point?.id ?? null,
+      insert: pathHit?.point && onPath ? { position: pixelToFieldCoords(pathHit.point.x, pathHit.point.y), segment: pathHit.segment } : null,
+    })
+  }
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) window.clearTimeout(longPressRef.current.timer)
+    longPressRef.current = null
+  }
+
+  // Stop dragging points or a selection box without finishing it
+  const cancelDrag = () => {
+    setDraggingId(null)
+    setDraggingHandle(null)
+    setSelectionBox(null)
+    endGesture()
+  }
+
+  // Handle pointer down for dragging, from a mouse, pen or finger
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointerTypeRef.current = e.pointerType
+    setContextMenu(null)
+    // Keep getting moves while dragging past the edge of the canvas
+    e.currentTarget.setPointerCapture(e.pointerId)
+
+    const touches = touchesRef.current
+    if (e.pointerType !== 'touch' || touches.size === 0) suppressClickRef.current = false
+    if (e.pointerType === 'touch') {
+      touches.set(e.pointerId, { x: e.clientX, y: e.clientY })
+      if (touches.size > 1) {
+        // A second finger turns whatever the first one started into a pinch
+        if (touches.size === 2) {
+          cancelLongPress()
+          cancelDrag()
+          suppressClickRef.current = true
+          const [a, b] = touches.values()
+          viewport.startPinch([a, b])
+        }
+        return
+      }
+    }
+
+    // Middle-drag or space-drag pans
+    if (e.button === 1 || (e.button === 0 && spaceHeld)) {
+      e.preventDefault()
+      viewport.startPan(e.clientX, e.clientY)
+      return
+    }
+    if (e.button !== 0) return
+
+    // Measuring and calibrating never drag points, a finger pans instead
+    if (measureMode || pendingCalibration) {
+      if (e.pointerType === 'touch') viewport.startPan(e.clientX, e.clientY)
+      return
+    }
+
+    // Holding a finger or pen still opens the actions menu
+    if (e.pointerType !== 'mouse') {
+      const { clientX, clientY } = e
+      longPressRef.current = {
+        timer: window.setTimeout(() => {
+          longPressRef.current = null
+          suppressClickRef.current = true
+          cancelDrag()
+          viewport.endPan()
+          openContextMenu(clientX, clientY)
+        }, LONG_PRESS_MS),
+        x: e.clientX,
+        y: e.clientY,
+      }
+    }
+
     const { x, y } = getCanvasCoords(e)
 
-    const clickedPoint = points.find(
-      p => Math.hypot(p.x - x, p.y - y) < POINT_RADIUS
-    )
+    const clickedHandle = getHandleAt(x, y)
+    if (clickedHandle) {
+      // the whole drag is recorded as one undo step
+      beginGesture()
+      setDraggingHandle(clickedHandle)
+      return
+    }
+
+    const clickedPoint = getPointAt(x, y)
 
     if (clickedPoint) {
+      beginGesture()
       setDraggingId(clickedPoint.id)
+    } else if (e.shiftKey) {
+      setSelectionBox({ start: { x, y }, end: { x, y } })
+    } else if (e.pointerType === 'touch') {
+      // Dragging a finger across the field pans it
+      viewport.startPan(e.clientX, e.clientY)
     }
   }
 
-  // Handle mouse move for dragging and hover detection
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  // Handle pointer move for dragging and hover detection
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const touches = touchesRef.current
+    if (touches.has(e.pointerId)) {
+      touches.set(e.pointerId, { x: e.clientX, y: e.clientY })
+      if (touches.size > 1) {
+        const [a, b] = touches.values()
+        viewport.movePinch([a, b])
+        return
+      }
+    }
+    const press = longPressRef.current
+    if (press && Math.hypot(e.clientX - press.x, e.clientY - press.y) > LONG_PRESS_SLOP) cancelLongPress()
+
+    if (viewport.movePan(e.clientX, e.clientY)) return
+    if (pendingCalibration) return
+
     const { x, y } = getCanvasCoords(e)
 
     // Check for hover on points
-    const hoveredPoint = points.find(
-      p => Math.hypot(p.x - x, p.y - y) < POINT_RADIUS
-    )
+    const hoveredPoint = getPointAt(x, y)
     setHoveredId(hoveredPoint?.id ?? null)
 
     // Check for hover on path
@@ -684,30 +1773,139 @@ function App() {
       setLastHoveredProgress(pathHover.progress)
     }
 
-    if (draggingId === null) return
+    if (selectionBox) {
+      setSelectionBox({ ...selectionBox, end: { x, y } })
+      return
+    }
+
+    if (measureMode) {
+      if (measure && !measure.fixed) setMeasure({ ...measure, end: getMeasureTarget(x, y) })
+      return
+    }
 
-    const { fieldX, fieldY } = pixelToFieldCoords(x, y)
-    // Round to 2 decimal places
-    const fieldXRounded = Math.round(fieldX * 10) / 10
-    const fieldYRounded = Math.round(fieldY * 10) / 10
-    setPoints(points.map(p =>
-      p.id === draggingId ? { ...p, x, y, fieldX: fieldXRounded, fieldY: fieldYRounded, theta: p.theta } : p
-    ))
+    if (draggingHandle !== null) {
+      const { fieldX, fieldY } = pixelToFieldCoords(x, y)
+      const handle = { fieldX: Math.round(fieldX * 10) / 10, fieldY: Math.round(fieldY * 10) / 10 }
+      setPoints(points.map(p => {
+        if (p.id !== draggingHandle.id || !p.controls) return p
+        const controls: Point['controls'] = draggingHandle.handle === 0 ? [handle, p.controls[1]] : [p.controls[0], handle]
+        return { ...p, controls }
+      }))
+      return
+    }
+
+    if (draggingId === null) {
+      // Preview where a new point would land
+      const placing = isSnapping(snap) && !hoveredPoint && !getHandleAt(x, y)
+      setSnapPreview(placing ? snapAt(x, y, points[points.length - 1] ?? null) : null)
+      return
+    }
+
+    const draggedIndex = points.findIndex(p => p.id === draggingId)
+    if (draggedIndex === -1) return
+    const dragged = points[draggedIndex]
+    const snapped = snapAt(x, y, points[draggedIndex - 1] ?? null)
+    setSnapPreview(isSnapping(snap) ? snapped : null)
+    const { fieldX: fieldXRounded, fieldY: fieldYRounded } = snapped.position
+    const dx = fieldXRounded - dragged.fieldX
+    const dy = fieldYRounded - dragged.fieldY
+    if (dx === 0 && dy === 0) return
+    dragMovedRef.current = true
+    // The rest of the selection moves along with the dragged point, and bezier handles attached to them too
+    const moving = selection.includes(draggingId) ? selection : [draggingId]
+    const shifted = moving.reduce((route, id) => shiftAttachedControls(route, id, dx, dy), points)
+    setPoints(shifted.map(p => {
+      if (!moving.includes(p.id)) return p
+      const fieldX = round1(p.fieldX + dx)
+      const fieldY = round1(p.fieldY + dy)
+      const { x: px, y: py } = fieldToPixel(fieldX, fieldY)
+      return { ...p, x: px, y: py, fieldX, fieldY }
+    }))
+  }
+
+  // Select the points inside the box, adding to what is already selected
+  const finishSelectionBox = () => {
+    if (!selectionBox) return
+    const { start, end } = selectionBox
+    const inside = points.filter(p => {
+      const { x, y } = fieldToPixelCoords(p.fieldX, p.fieldY)
+      return x >= Math.min(start.x, end.x) && x <= Math.max(start.x, end.x) &&
+        y >= Math.min(start.y, end.y) && y <= Math.max(start.y, end.y)
+    }).map(p => p.id)
+    const ids = [...selection, ...inside.filter(id => !selection.includes(id))]
+    setSelectedIds(ids)
+    setSelectedId(selectedId !== null && ids.includes(selectedId) ? selectedId : ids[0] ?? null)
+    setSelectionBox(null)
   }
 
-  // Handle mouse up for dragging
-  const handleMouseUp = () => {
+  // Handle pointer up for dragging
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    cancelLongPress()
+    const touches = touchesRef.current
+    if (touches.delete(e.pointerId)) {
+      // The view stays put until every finger of a pinch is lifted
+      if (touches.size < 2) viewport.endPinch()
+      if (touches.size > 0) return
+    }
+    if (viewport.endPan() && e.pointerType === 'touch') suppressClickRef.current = true
+    finishSelectionBox()
     setDraggingId(null)
+    setDraggingHandle(null)
+    endGesture()
   }
 
-  // Handle mouse leave
-  const handleMouseLeave = () => {
+  // Handle pointer leave
+  const handlePointerLeave = () => {
     setHoveredId(null)
     setHoveredPathProgress(null)
+    setSnapPreview(null)
+    setSelectionBox(null)
+    viewport.endPan()
     setDraggingId(null)
+    setDraggingHandle(null)
+    endGesture()
   }
 
   const selectedPoint = selectedId !== null ? points.find(p => p.id === selectedId) : undefined
+  const selectedIndex = selectedId !== null ? points.findIndex(p => p.id === selectedId) : -1
+  const selectedThetaEditable = selectedIndex !== -1 && (selectedIndex === points.length - 1 || points[selectedIndex].motion === 'pose')
+  // Direction buttons show a direction as chosen only when every selected point has it
+  const selectedPoints = points.filter(p => selection.includes(p.id))
+  const selectionForwards = selectedPoints.every(p => p.forwards)
+  const selectionBackwards = selectedPoints.every(p => !p.forwards)
+
+  // A menu opened on a selected point acts on the whole selection
+  const getContextMenuItems = (menu: NonNullable<typeof contextMenu>): ContextMenuItem[] => {
+    if (menu.insert) {
+      const { position, segment } = menu.insert
+      return [{ label: 'Insert Point Here', onSelect: () => insertPointOnSegment(position, segment) }]
+    }
+    const index = points.findIndex(p => p.id === menu.pointId)
+    if (index === -1) return []
+    const ids = selection.includes(points[index].id) ? selection : [points[index].id]
+    // Halfway along the segment to the next point, following its curve
+    const next = points[index + 1]
+    const halfway = next ? getSegmentPosition(points[index], next, 0.5) : null
+    return [
+      {
+        label: ids.length > 1 ? `Delete ${ids.length} Points` : 'Delete Point',
+        onSelect: () => {
+          setPoints(deletePoints(points, ids))
+          setSelectedId(null)
+          setSelectedIds([])
+        },
+      },
+      {
+        label: 'Insert Point After',
+        onSelect: () => halfway && insertPointOnSegment(halfway, index + 1),
+        disabled: !halfway,
+      },
+      {
+        label: 'Toggle Direction',
+        onSelect: () => setPoints(points.map(p => ids.includes(p.id) ? { ...p, forwards: !p.forwards } : p)),
+      },
+    ]
+  }
 
   // copy selected point code
 
@@ -721,9 +1919,51 @@ function App() {
             <img src="/logo.svg" alt="Logo" style={{ height: '1.5rem' }} />
             <h3>VEX V5RC Route Builder</h3>
           </div>
+          <div style={{ display: 'flex', gap: '0.5rem', marginLeft: '1rem' }}>
+            <IconButton
+              onClick={undo}
+              iconSrc="/arrow-back-up.svg"
+              text=""
+              disabled={!canUndo}
+            />
+            <IconButton
+              onClick={redo}
+              iconSrc="/arrow-forward-up.svg"
+              text=""
+              disabled={!canRedo}
+            />
+          </div>
+          <button
+            onClick={handleShareRoute}
+            style={{
+              marginLeft: 'auto',
+            }}
+          >
+            Share
+          </button>
+          <div className="export-menu-anchor">
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              disabled={exportStatus !== null || !image}
+              title={exportStatus ?? undefined}
+              style={{
+                marginLeft: '0.5rem',
+              }}
+            >
+              {exportStatus ?? 'Export'}
+            </button>
+            {showExportMenu && (
+              <div className="export-menu">
+                <button onClick={() => handleExport('PNG', exportPng)}>PNG Image</button>
+                <button onClick={() => handleExport('PDF', exportPdf)}>PDF Sheet</button>
+                <button onClick={() => handleExport('GIF', exportGif)} disabled={points.length < 2}>Animated GIF</button>
+                <button onClick={() => handleExport('WebM', exportWebm)} disabled={points.length < 2 || !canRecordWebm()}>WebM Video</button>
+              </div>
+            )}
+          </div>
           <button
             onClick={() => {
-              const dataStr = JSON.stringify(points, null, 2)
+              const dataStr = serializeRoute(getActiveRoute(currentLibrary))
               const dataBlob = new Blob([dataStr], { type: 'application/json' })
               const url = URL.createObjectURL(dataBlob)
               const link = document.createElement('a')
@@ -737,7 +1977,7 @@ function App() {
               URL.revokeObjectURL(url)
             }}
             style={{
-              marginLeft: 'auto',
+              marginLeft: '0.5rem',
             }}
           >
             Download Route as JSON
@@ -753,20 +1993,29 @@ function App() {
                 const reader = new FileReader()
                 reader.onload = (event) => {
                   try {
-                    const importedPoints = JSON.parse(event.target?.result as string)
-                    if (Array.isArray(importedPoints)) {
-                      setPoints(importedPoints)
-                      setSelectedId(null)
-                      // Reset nextId to be higher than all imported ids
-                      const maxId = Math.max(...importedPoints.map((p: Point) => p.id), -1)
-                      setNextId(maxId + 1)
+                    const { route, warnings } = parseRouteFile(event.target?.result as string, getActiveRoute(currentLibrary), fieldPresets.map(f => f.id))
+                    setPoints(route.points)
+                    setFieldImageSrc(route.field)
+                    setRobot(route.robot)
+                    setSelectedId(null)
+                    setSelectedIds([])
+                    // Imported points are numbered from 0
+                    setNextId(route.points.length)
+                    if (warnings.length > 0) {
+                      alert(`Imported with warnings:\n\n${warnings.map(w => `${w.path}: ${w.message}`).join('\n')}`)
                     }
                   } catch (err) {
-                    alert('Failed to parse JSON file')
+                    if (err instanceof RouteFileError) {
+                      alert(`Failed to import route:\n\n${err.message}`)
+                    } else {
+                      alert('Failed to parse JSON file')
+                    }
                   }
                 }
                 reader.readAsText(file)
               }
+              // allow importing the same file again
+              e.target.value = ''
             }}
           />
           <button
@@ -779,11 +2028,80 @@ function App() {
           >
             Import Route from JSON
           </button>
+          <input
+            type="file"
+            accept=".txt,.json"
+            style={{ display: 'none' }}
+            id="path-import-input"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) {
+                const reader = new FileReader()
+                reader.onload = (event) => handlePathFile(file.name, event.target?.result as string)
+                reader.readAsText(file)
+              }
+              e.target.value = ''
+            }}
+          />
+          <button
+            onClick={() => {
+              document.getElementById('path-import-input')?.click()
+            }}
+            style={{
+              marginLeft: '0.5rem',
+            }}
+          >
+            Import path.jerryio / LemLib
+          </button>
+          <input
+            type="file"
+            accept=".csv,.txt,.json"
+            style={{ display: 'none' }}
+            id="telemetry-import-input"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) {
+                const reader = new FileReader()
+                reader.onload = (event) => handleTelemetryFile(file.name, event.target?.result as string)
+                reader.readAsText(file)
+              }
+              e.target.value = ''
+            }}
+          />
+          <button
+            onClick={() => {
+              document.getElementById('telemetry-import-input')?.click()
+            }}
+            style={{
+              marginLeft: '0.5rem',
+            }}
+          >
+            Import Odometry Log
+          </button>
+          <button
+            onClick={() => setPendingImport({ kind: 'code', fileName: 'pasted code', code: '' })}
+            style={{
+              marginLeft: '0.5rem',
+            }}
+          >
+            Paste Code
+          </button>
         </div>
         <div id="main">
 
 
-          <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div className={`side-panels left${showLeftPanels ? '' : ' collapsed'}`}>
+
+            <RouteLibraryPanel
+              library={currentLibrary}
+              onSelect={handleSelectRoute}
+              onCreate={handleCreateRoute}
+              onDuplicate={handleDuplicateRoute}
+              onRename={handleRenameRoute}
+              onDelete={handleDeleteRoute}
+              onLinkedCopy={handleLinkedCopy}
+              onUnlink={handleUnlinkRoute}
+            />
 
             <div className="container" id="point-list">
               <h3>Points</h3>
@@ -791,17 +2109,30 @@ function App() {
                 {points.map((point, index) => (
                   <div
                     key={point.id}
-                    className={`point-item ${selectedId === point.id ? 'selected' : ''}`}
-                    onClick={() => setSelectedId(point.id)}
+                    className={`point-item ${selection.includes(point.id) ? 'selected' : ''} ${listDrag && listDrag.to === index && listDrag.from !== index ? (listDrag.from < index ? 'drop-below' : 'drop-above') : ''}`}
+                    onClick={(e) => selectPoint(point.id, e.shiftKey)}
+                    draggable
+                    onDragStart={() => setListDrag({ from: index, to: index })}
+                    onDragOver={(e) => {
+                      e.preventDefault()
+                      if (listDrag && listDrag.to !== index) setListDrag({ ...listDrag, to: index })
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault()
+                      if (listDrag) setPoints(movePoint(points, listDrag.from, index))
+                      setListDrag(null)
+                    }}
+                    onDragEnd={() => setListDrag(null)}
                     style={{ cursor: 'pointer' }}
                   >
                     <span><strong>{point.id}.</strong></span>
                     <span>{Math.round(point.fieldX * 10) / 10}</span>
                     <span>{Math.round(point.fieldY * 10) / 10}</span>
-                    <span>{Math.round(getEffectiveTheta(index) * 10) / 10}°</span>
+                    <span>{Math.round(getEffectiveTheta(points, index) * 10) / 10}°</span>
                     <span>{point.timeout}ms</span>
                     <span>{point.forwards ? "Forwards" : "Backwards"}</span>
                     <span>Speed: {point.speed}</span>
+                    <span>Actions: {point.actions.length}</span>
                   </div>
                 ))}
               </div>
@@ -817,7 +2148,7 @@ function App() {
                       key={i}
                       onClick={() => {
                         if (item.pointIndex !== null) {
-                          setSelectedId(points[item.pointIndex].id)
+                          selectPoint(points[item.pointIndex].id, false)
                         }
                       }}
                       style={{
@@ -834,6 +2165,14 @@ function App() {
                 })}
               </pre>
             </div>
+            <div className="container" id="route-lint">
+              <h3>Problems</h3>
+              <LintPanel
+                issues={lintIssues}
+                selectedIndex={selectedId !== null ? points.findIndex(p => p.id === selectedId) : -1}
+                onSelect={(pointIndex) => selectPoint(points[pointIndex].id, false)}
+              />
+            </div>
           </div>
 
           <div className="container" id="field">
@@ -841,47 +2180,174 @@ function App() {
               ref={canvasRef}
               tabIndex={0}
               onClick={handleCanvasClick}
-              onMouseDown={handleMouseDown}
-              onMouseMove={handleMouseMove}
-              onMouseUp={handleMouseUp}
-              onMouseLeave={handleMouseLeave}
-              style={{ cursor: draggingId !== null ? 'grabbing' : hoveredId !== null ? 'grab' : 'crosshair' }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              onPointerLeave={handlePointerLeave}
+              onContextMenu={(e) => {
+                e.preventDefault()
+                if (!measureMode && !pendingCalibration) openContextMenu(e.clientX, e.clientY)
+              }}
+              style={{ cursor: viewport.isPanning || draggingId !== null || draggingHandle !== null ? 'grabbing' : spaceHeld || hoveredId !== null ? 'grab' : 'crosshair' }}
               aria-label="VEX field canvas"
             />
+            <Timeline
+              blocks={timelineBlocks}
+              markers={timelineMarkers}
+              timeLimit={autonTimeLimit}
+              playhead={robotTime / 1000}
+              selectedIndex={selectedId !== null ? points.findIndex(p => p.id === selectedId) : -1}
+              editable={simulationMode !== 'physics'}
+              onSelect={(pointIndex) => selectPoint(points[pointIndex].id, false)}
+              onSeek={(time) => {
+                seekRobotTime(time * 1000)
+                setLastHoveredProgress(0)
+              }}
+              onResizeStart={beginGesture}
+              onResize={(pointIndex, timeout) => setPoints(points.map((p, i) => i === pointIndex ? { ...p, timeout } : p))}
+              onResizeEnd={endGesture}
+            />
+            {contextMenu && (
+              <ContextMenu
+                left={contextMenu.left}
+                top={contextMenu.top}
+                items={getContextMenuItems(contextMenu)}
+                onClose={() => setContextMenu(null)}
+              />
+            )}
+            <div className="view-controls">
+              <button className={showLeftPanels ? 'selected' : ''} onClick={() => setShowLeftPanels(!showLeftPanels)}>Left Panel</button>
+              <button className={showRightPanels ? 'selected' : ''} onClick={() => setShowRightPanels(!showRightPanels)}>Right Panel</button>
+              <button onClick={() => viewport.zoomAt(canvasSize.width / 2, canvasSize.height / 2, 1 / 1.25)}>−</button>
+              <span>{Math.round(viewport.zoom * 100)}%</span>
+              <button onClick={() => viewport.zoomAt(canvasSize.width / 2, canvasSize.height / 2, 1.25)}>+</button>
+              <button onClick={viewport.fit}>Fit Field</button>
+              <button
+                className={measureMode ? 'selected' : ''}
+                onClick={() => {
+                  setMeasureMode(!measureMode)
+                  setMeasure(null)
+                  setSnapPreview(null)
+                }}
+              >
+                Measure
+              </button>
+            </div>
+            {pendingCalibration && (
+              <FieldCalibrationDialog
+                pending={pendingCalibration}
+                onChange={setPendingCalibration}
+                onSave={handleSaveCalibration}
+                onCancel={() => {
+                  setPendingCalibration(null)
+                  viewport.fit()
+                }}
+              />
+            )}
+            {pendingImport && (
+              <ImportPreview
+                pendingImport={pendingImport}
+                pointCount={importPreviewPoints.length}
+                issues={importPreview.issues}
+                onChange={setPendingImport}
+                onConfirm={confirmPathImport}
+                onCancel={() => setPendingImport(null)}
+              />
+            )}
           </div>
 
-          <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div className={`side-panels right${showRightPanels ? '' : ' collapsed'}`}>
 
             <div id="configuration" className='container'>
               <h3>Configuration</h3>
 
               <SelectInput
                 label="Field"
-                value={fieldImageSrc}
+                value={fieldPreset.id}
                 onChange={setFieldImageSrc}
+                options={fieldPresets.map(f => ({ value: f.id, label: f.name }))}
+              />
+              <input
+                type="file"
+                accept="image/*"
+                style={{ display: 'none' }}
+                id="field-image-input"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleFieldImageFile(file)
+                  e.target.value = ''
+                }}
+              />
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <button onClick={() => document.getElementById('field-image-input')?.click()} disabled={pendingCalibration !== null}>
+                  Add Field Image
+                </button>
+                <button onClick={handleDeleteField} disabled={!customFields.includes(fieldPreset)}>
+                  Delete Field
+                </button>
+              </div>
+
+              <SelectInput
+                label="Code Target"
+                value={codeTarget}
+                onChange={setCodeTarget}
+                options={codeGenerators.map(g => ({ value: g.id, label: g.label }))}
+              />
+
+              <SelectInput
+                label="Simulation"
+                value={simulationMode}
+                onChange={(v) => setSimulationMode(v as SimulationMode)}
                 options={[
-                  { value: "h2h", label: "Vex V5RC Push Back H2H" },
-                  { value: "skills", label: "Vex V5RC Push Back Skills" }
+                  { value: 'timeout', label: 'Point Timeouts' },
+                  { value: 'physics', label: 'Drivetrain Physics' }
                 ]}
               />
 
-              <div style={{ display: 'flex', gap: '1rem' }}>
+              {simulationMode === 'physics' && (
+                <>
+                  <div style={{ display: 'flex', gap: '1rem' }}>
+                    {/* Worked out from the robot's drivetrain, so it is shown rather than edited here */}
+                    <div className='number-input' title="Set by the drivetrain in the robot profile">
+                      Max Vel (in/s)
+                      <span style={{ padding: '0.25rem 0' }}>{round1(robotMaxVelocity)}</span>
+                    </div>
+                    <NumberInput
+                      label="Accel (in/s²)"
+                      value={drivetrain.acceleration}
+                      onChange={(v) => setDrivetrain({ ...drivetrain, acceleration: v })}
+                      step={10}
+                    />
+                  </div>
+                  <div style={{ display: 'flex', gap: '1rem' }}>
+                    <NumberInput
+                      label="Turn Rate (°/s)"
+                      value={drivetrain.turnRate}
+                      onChange={(v) => setDrivetrain({ ...drivetrain, turnRate: v })}
+                      step={30}
+                    />
+                    <NumberInput
+                      label="Turn Accel (°/s²)"
+                      value={drivetrain.turnAcceleration}
+                      onChange={(v) => setDrivetrain({ ...drivetrain, turnAcceleration: v })}
+                      step={90}
+                    />
+                  </div>
+                </>
+              )}
+
+              <SnapSettingsPanel settings={snap} onChange={setSnap} />
 
-                <NumberInput
-                  label="Bot Length (in)"
-                  value={botLength}
-                  onChange={setBotLength}
-                  min={1}
-                  step={0.5}
-                />
-                <NumberInput
-                  label="Bot Width (in)"
-                  value={botWidth}
-                  onChange={setBotWidth}
-                  min={1}
-                  step={0.5}
-                />
-              </div>
+              <RobotProfilePanel
+                robot={robot}
+                profiles={robotProfiles}
+                onChange={setRobot}
+                onSelect={handleSelectRobot}
+                onSave={handleSaveRobot}
+                onCreate={handleCreateRobot}
+                onDelete={handleDeleteRobot}
+              />
               <div style={{ display: 'flex', gap: '0.5rem', flexDirection: 'column' }}>
 
 
@@ -911,36 +2377,41 @@ function App() {
                   checked={showGuideCoordinates}
                   onChange={(checked) => setShowGuideCoordinates(checked)}
                 />
+                <Checkbox
+                  label="Show Field Elements"
+                  iconSrc='/box.svg'
+                  checked={showFieldElements}
+                  onChange={(checked) => setShowFieldElements(checked)}
+                />
+                <Checkbox
+                  label="Show Swept Area"
+                  iconSrc='/road.svg'
+                  checked={showSweptArea}
+                  onChange={(checked) => setShowSweptArea(checked)}
+                />
               </div>
 
               <div style={{ display: 'flex', gap: '0.5rem' }}>
                 <IconButton
-                  onClick={() => {
-                    setPoints(points.map(p => ({
-                      ...p,
-                      fieldY: -p.fieldY,
-                      y: -p.y + (image ? image.height : 0)
-                    })))
-                  }}
+                  onClick={() => setPoints(transformPoints(points, 'mirror-x'))}
                   iconSrc="/flip-horizontal.svg"
                   text="Flip X"
                 />
                 <IconButton
-                  onClick={() => {
-                    setPoints(points.map(p => ({
-                      ...p,
-                      fieldX: -p.fieldX,
-                      x: -p.x + (image ? image.width : 0)
-                    })))
-                  }}
+                  onClick={() => setPoints(transformPoints(points, 'mirror-y'))}
                   iconSrc="/flip-vertical.svg"
                   text="Flip Y"
                 />
+                <IconButton
+                  onClick={() => setPoints(transformPoints(points, 'rotate-180'))}
+                  iconSrc="/rotate.svg"
+                  text="Rotate 180°"
+                />
               </div>
             </div>
             <div className="container" id="edit">
               <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                <h3>Edit Point {selectedId !== null ? points.findIndex(p => p.id === selectedId) : ''}</h3>
+                <h3>{selection.length > 1 ? `Edit Point ${selectedIndex} + ${selection.length - 1} More` : `Edit Point ${selectedId !== null ? selectedIndex : ''}`}</h3>
                 {
                   selectedId !== null && (
                     <div
@@ -954,7 +2425,7 @@ function App() {
 
                         onClick={() => {
                           const index = points.findIndex(p => p.id === selectedId);
-                          setSelectedId(index > 0 ? index - 1 : points.length - 1);
+                          selectPoint(points[index > 0 ? index - 1 : points.length - 1].id, false)
                         }}
                         iconSrc="/arrow-left.svg"
                         text=""
@@ -963,7 +2434,7 @@ function App() {
                       <IconButton
                         onClick={() => {
                           const index = points.findIndex(p => p.id === selectedId);
-                          setSelectedId(index < points.length - 1 ? index + 1 : 0);
+                          selectPoint(points[index < points.length - 1 ? index + 1 : 0].id, false)
                         }}
                         iconSrc="/arrow-right.svg"
                         text=""
@@ -1001,14 +2472,27 @@ function App() {
 
                   </div>
 
+                  {selectedIndex > 0 && (
+                    <SelectInput
+                      label="Motion"
+                      value={selectedPoint.motion}
+                      onChange={(v) => updateSelectedPointMotion(v as MotionType)}
+                      options={[
+                        { value: 'point', label: 'Turn + Move to Point' },
+                        { value: 'pose', label: 'Move to Pose (Boomerang)' },
+                        { value: 'bezier', label: 'Bezier Curve' }
+                      ]}
+                    />
+                  )}
+
                   <div style={{ display: 'flex', gap: '1rem' }}>
 
                     <NumberInput
                       label="θ (°)"
-                      value={Math.round(getEffectiveTheta(points.findIndex(p => p.id === selectedId)))}
+                      value={Math.round(selectedThetaEditable ? selectedPoint.theta : getEffectiveTheta(points, selectedIndex))}
                       onChange={(v) => {
-                        const isLastPoint = selectedId !== null && selectedId === points[points.length - 1].id
-                        if (isLastPoint) {
+                        // theta is only stored for the last point and for pose targets, other headings follow the path
+                        if (selectedThetaEditable) {
                           setPoints(points.map(p =>
                             p.id === selectedId ? { ...p, theta: v } : p
                           ))
@@ -1017,21 +2501,36 @@ function App() {
                       min={0}
                       max={360}
                       step={5}
-                      disableButtons={selectedId !== null && selectedId !== points[points.length - 1].id}
+                      disableButtons={!selectedThetaEditable}
                     />
+                    {selectedPoint.motion === 'pose' && selectedIndex > 0 && (
+                      <NumberInput
+                        label="Lead"
+                        value={selectedPoint.lead}
+                        onChange={(v) => setPoints(points.map(p => p.id === selectedId ? { ...p, lead: v } : p))}
+                        min={0}
+                        max={1}
+                        step={0.1}
+                      />
+                    )}
                   </div>
+                  {selection.length > 1 && (
+                    <div style={{ fontSize: '14px', color: 'var(--text-faded)' }}>
+                      Timeout, speed and direction apply to all {selection.length} selected points
+                    </div>
+                  )}
                   <div style={{ display: 'flex', gap: '1rem' }}>
                     <NumberInput
                       label="Timeout (ms)"
                       value={selectedPoint.timeout}
-                      onChange={(v) => setPoints(points.map(p => p.id === selectedId ? { ...p, timeout: v } : p))}
+                      onChange={(v) => setPoints(points.map(p => selection.includes(p.id) ? { ...p, timeout: v } : p))}
                       min={0}
                       step={100}
                     />
                     <NumberInput
                       label="Speed (1-127)"
                       value={selectedPoint.speed}
-                      onChange={(v) => setPoints(points.map(p => p.id === selectedId ? { ...p, speed: v } : p))}
+                      onChange={(v) => setPoints(points.map(p => selection.includes(p.id) ? { ...p, speed: v } : p))}
                       min={1}
                       max={127}
                       step={5}
@@ -1043,17 +2542,17 @@ function App() {
                     <div style={{ display: 'flex', gap: '0.5rem' }}>
 
                       <button
-                        className={selectedPoint.forwards ? '' : 'selected'}
-                        disabled={!selectedPoint.forwards}
-                        onClick={() => setPoints(points.map(p => p.id === selectedId ? { ...p, forwards: false } : p))}
+                        className={selectionBackwards ? 'selected' : ''}
+                        disabled={selectionBackwards}
+                        onClick={() => setPoints(points.map(p => selection.includes(p.id) ? { ...p, forwards: false } : p))}
                       >
                         Backwards
                       </button>
 
                       <button
-                        className={selectedPoint.forwards ? 'selected' : ''}
-                        disabled={selectedPoint.forwards}
-                        onClick={() => setPoints(points.map(p => p.id === selectedId ? { ...p, forwards: true } : p))}
+                        className={selectionForwards ? 'selected' : ''}
+                        disabled={selectionForwards}
+                        onClick={() => setPoints(points.map(p => selection.includes(p.id) ? { ...p, forwards: true } : p))}
                       >
                         Forwards
                       </button>
@@ -1062,6 +2561,11 @@ function App() {
 
                   </div>
 
+                  <ActionList
+                    actions={selectedPoint.actions}
+                    onChange={(actions) => setPoints(points.map(p => p.id === selectedId ? { ...p, actions } : p))}
+                  />
+
                 </>
               )}
             </div>
@@ -1074,7 +2578,7 @@ function App() {
                   min="0"
                   max="100"
                   value={robotProgress * 100}
-                  onChange={(e) => setRobotProgress(parseFloat(e.target.value) / 100)}
+                  onChange={(e) => seekRobotTime(getElapsedFromProgress(parseFloat(e.target.value) / 100))}
                   step="1"
                   style={{ width: '100%' }}
                 />
@@ -1085,7 +2589,7 @@ function App() {
                   onClick={() => {
                     if (!isRunning) {
                       // If at end, reset to start when running
-                      if (robotProgress >= 1) setRobotProgress(0)
+                      if (robotTime >= getTotalSimulationDuration()) seekRobotTime(0)
                       setIsRunning(true)
                       setShowBot(true)
                     } else {
@@ -1102,17 +2606,93 @@ function App() {
                   {isRunning ? 'Pause' : 'Run'}
                 </button>
               </div>
-              {/* 
               <div style={{ marginTop: '0.5rem' }}>
-              Total Time: 
+                Total Time:
                 {(() => {
-                  const totalMs = getTotalSimulationDuration()
-                  const totalSeconds = totalMs / 1000
-                  return ` ${totalSeconds.toFixed(1)}s`
+                  const totalSeconds = getTotalSimulationDuration() / 1000
+                  return (
+                    <span style={{ color: totalSeconds > autonTimeLimit ? '#ff6060' : 'inherit' }}>
+                      {` ${totalSeconds.toFixed(1)}s / ${autonTimeLimit}s`}
+                    </span>
+                  )
                 })()}
-              </div> */}
+              </div>
+              {simulationMode === 'physics' && simulationPlan.segments.length > 0 && (
+                <div style={{ display: 'flex', flexDirection: 'column', fontSize: '14px', color: 'var(--text-faded)' }}>
+                  {simulationPlan.segments.map(seg => (
+                    <span key={seg.segment}>
+                      {seg.segment - 1} → {seg.segment}: turn {seg.turnTime.toFixed(2)}s + drive {seg.driveTime.toFixed(2)}s = {seg.total.toFixed(2)}s
+                      {seg.driveTime * 1000 > points[seg.segment].timeout && ' (exceeds timeout)'}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {collisions.length > 0 && (
+                <div className="collision-list">
+                  {collisions.map(collision => (
+                    <span key={collision.segment}>
+                      {collision.segment - 1} → {collision.segment}: hits {collision.hits.join(', ')}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {telemetry && (
+                <div className="telemetry-errors">
+                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <span>
+                      {telemetry.fileName}: {telemetry.samples.length} poses over {(telemetry.samples[telemetry.samples.length - 1].time / 1000).toFixed(1)}s
+                    </span>
+                    <button onClick={() => setTelemetry(null)}>Clear Log</button>
+                  </div>
+                  {waypointErrors.map(error => (
+                    <span
+                      key={error.pointIndex}
+                      onClick={() => {
+                        // Scrub to when the robot came closest to the point
+                        seekRobotTime(error.time)
+                        setLastHoveredProgress(0)
+                        selectPoint(points[error.pointIndex].id, false)
+                      }}
+                    >
+                      Point {error.pointIndex}: {error.distance.toFixed(1)}in off, heading {error.headingError >= 0 ? '+' : ''}{error.headingError.toFixed(1)}° at {(error.time / 1000).toFixed(2)}s
+                    </span>
+                  ))}
+                </div>
+              )}
 
             </div>
+            <div id="live-robot" className='container'>
+              <h3>Live Robot</h3>
+              <label className="text-input">
+                Bridge URL
+                <input
+                  type="text"
+                  value={liveUrl}
+                  onChange={(e) => setLiveUrl(e.target.value)}
+                  disabled={live.status === 'connecting' || live.status === 'connected'}
+                  style={{ width: '14rem' }}
+                />
+              </label>
+              <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                {live.status === 'connecting' || live.status === 'connected' ? (
+                  <button onClick={live.disconnect}>Disconnect</button>
+                ) : (
+                  <button onClick={() => live.connect(liveUrl)}>Connect</button>
+                )}
+                <button onClick={captureLivePose} disabled={!live.pose}>Capture Pose as Point</button>
+              </div>
+              <span style={{ fontSize: '14px', color: live.status === 'error' ? '#ff6060' : 'var(--text-faded)' }}>
+                {live.status === 'connected'
+                  ? live.pose
+                    ? `(${live.pose.fieldX.toFixed(1)}, ${live.pose.fieldY.toFixed(1)}) facing ${live.pose.theta.toFixed(1)}°`
+                    : 'Connected, waiting for a pose'
+                  : live.status === 'connecting'
+                    ? 'Connecting...'
+                    : live.status === 'error'
+                      ? 'Could not reach the bridge, is npm run pose-bridge running?'
+                      : 'Not connected'}
+              </span>
+            </div>
 
           </div>
 
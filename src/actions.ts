@@ -0,0 +1,98 @@
+import type { ActionKind, ActionTiming, FieldPosition, PistonState, Point, WaypointAction } from './types'
+import type { PathSample } from './path'
+
+export const ACTION_KINDS: { value: ActionKind; label: string }[] = [
+  { value: 'motor', label: 'Run Motors' },
+  { value: 'pneumatic', label: 'Pneumatic' },
+  { value: 'wait', label: 'Wait' },
+  { value: 'custom', label: 'Custom Code' },
+]
+
+export const ACTION_TIMINGS: { value: ActionTiming; label: string }[] = [
+  { value: 'before', label: 'Before Move' },
+  { value: 'distance', label: 'At Distance' },
+  { value: 'after', label: 'After Move' },
+]
+
+export const PISTON_STATES: { value: PistonState; label: string }[] = [
+  { value: 'extend', label: 'Extend' },
+  { value: 'retract', label: 'Retract' },
+  { value: 'toggle', label: 'Toggle' },
+]
+
+// A new action of a kind, keeping the timing of the action it replaces
+export const createAction = (kind: ActionKind, timing: Pick<WaypointAction, 'timing' | 'distance'> = { timing: 'after', distance: 0 }): WaypointAction => {
+  switch (kind) {
+    case 'motor':
+      return { ...timing, kind, target: 'intake', velocity: 127 }
+    case 'pneumatic':
+      return { ...timing, kind, target: 'clamp', state: 'toggle' }
+    case 'wait':
+      return { ...timing, kind, duration: 250 }
+    case 'custom':
+      return { ...timing, kind, code: '' }
+  }
+}
+
+// Short label for lists and canvas markers
+export const describeAction = (action: WaypointAction) => {
+  switch (action.kind) {
+    case 'motor':
+      return `${action.target} ${action.velocity}`
+    case 'pneumatic':
+      return `${action.target} ${action.state}`
+    case 'wait':
+      return `wait ${action.duration}ms`
+    case 'custom':
+      return action.code.split('\n')[0] || 'custom code'
+  }
+}
+
+export interface ActionMarker extends FieldPosition {
+  pointIndex: number; // point the first action at this spot belongs to
+  onPoint: boolean; // sits on a waypoint, so it is drawn beside it instead of under it
+  actions: WaypointAction[];
+}
+
+// Position a given distance (in) along the sampled path
+const positionAtDistance = (samples: PathSample[], distance: number): FieldPosition => {
+  for (let i = 1; i < samples.length; i++) {
+    const a = samples[i - 1]
+    const b = samples[i]
+    if (b.distance >= distance && b.distance > a.distance) {
+      const t = Math.max(0, (distance - a.distance) / (b.distance - a.distance))
+      return { fieldX: a.fieldX + (b.fieldX - a.fieldX) * t, fieldY: a.fieldY + (b.fieldY - a.fieldY) * t }
+    }
+  }
+  const last = samples[samples.length - 1]
+  return { fieldX: last.fieldX, fieldY: last.fieldY }
+}
+
+// Where each action fires on the field, actions firing at the same spot share a marker
+// Before-move actions sit at the start of their segment, after-move actions on their point
+export const getActionMarkers = (points: Point[], samples: PathSample[]): ActionMarker[] => {
+  const segmentEnds: number[] = [0]
+  samples.forEach(s => { segmentEnds[s.segment] = s.distance })
+
+  const markers: ActionMarker[] = []
+  points.forEach((point, index) => {
+    point.actions.forEach(action => {
+      let position: FieldPosition = point
+      if (index > 0 && action.timing === 'before') {
+        position = points[index - 1]
+      } else if (index > 0 && action.timing === 'distance') {
+        const start = segmentEnds[index - 1] ?? 0
+        const end = segmentEnds[index] ?? start
+        position = positionAtDistance(samples, Math.min(start + action.distance, end))
+      }
+      const existing = markers.find(m => Math.hypot(m.fieldX - position.fieldX, m.fieldY - position.fieldY) < 0.5)
+      if (existing) {
+        existing.actions.push(action)
+      } else {
+        const onPoint = points.some(p => Math.hypot(p.fieldX - position.fieldX, p.fieldY - position.fieldY) < 0.5)
+        markers.push({ fieldX: position.fieldX, fieldY: position.fieldY, pointIndex: index, onPoint, actions: [action] })
+      }
+    })
+  })
+  return markers
+}
@@ -0,0 +1,174 @@
+import type { CodeParseIssue, Point } from './types'
+import { fieldToPixel, headingBetween, normalizeDegrees, round1 } from './geometry'
+import { DEFAULT_LEAD, facingHeading } from './path'
+
+// LemLib's default maxSpeed when a call doesn't pass one
+const LEMLIB_MAX_SPEED = 127
+
+interface Statement {
+  text: string;
+  line: number; // 1-based line the statement starts on
+  opensBlock: boolean; // followed by {, e.g. a function signature or if statement
+}
+
+interface Call {
+  target: string; // variable the method is called on, e.g. chassis
+  method: string;
+  args: string[];
+}
+
+export interface ParsedAutonCode {
+  points: Point[];
+  issues: CodeParseIssue[];
+}
+
+// Blank out comments, keeping newlines so line numbers still match the pasted code
+const stripComments = (code: string) => {
+  return code
+    .replace(/\/\*[\s\S]*?\*\//g, match => match.replace(/[^\n]/g, ' '))
+    .replace(/\/\/.*$/gm, '')
+}
+
+// Split code into statements on top-level semicolons and braces of surrounding blocks
+const splitStatements = (code: string): Statement[] => {
+  const statements: Statement[] = []
+  let depth = 0
+  let line = 1
+  let start = 1
+  let text = ''
+  for (const ch of code) {
+    if (ch === '(') depth++
+    if (ch === ')') depth--
+    if (depth === 0 && (ch === ';' || ch === '{' || ch === '}')) {
+      if (text.trim()) statements.push({ text: text.trim(), line: start, opensBlock: ch === '{' })
+      text = ''
+    } else {
+      if (!text.trim()) start = line
+      text += ch
+    }
+    if (ch === '\n') line++
+  }
+  if (text.trim()) statements.push({ text: text.trim(), line: start, opensBlock: false })
+  return statements
+}
+
+// Split a call's argument list on top-level commas
+const splitArgs = (args: string) => {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const ch of args) {
+    if (ch === '(' || ch === '{') depth++
+    if (ch === ')' || ch === '}') depth--
+    if (ch === ',' && depth === 0) {
+      parts.push(current.trim())
+      current = ''
+    } else {
+      current += ch
+    }
+  }
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+const parseCall = (text: string): Call | null => {
+  const match = text.match(/^(\w+)\s*(?:\.|->)\s*(\w+)\s*\(([\s\S]*)\)$/)
+  if (!match) return null
+  return { target: match[1], method: match[2], args: splitArgs(match[3]) }
+}
+
+// Read a designated-initializer params struct such as {.forwards=false, .maxSpeed=80}
+// An optional type name before the braces (lemlib::MoveToPointParams{...}) is allowed
+const parseParams = (arg: string | undefined): Record<string, string> => {
+  const params: Record<string, string> = {}
+  const body = arg?.match(/\{([\s\S]*)\}/)?.[1]
+  if (!body) return params
+  for (const field of splitArgs(body)) {
+    const match = field.match(/^\.(\w+)\s*=\s*(.+)$/)
+    if (match) params[match[1]] = match[2].trim()
+  }
+  return params
+}
+
+const parseNumber = (arg: string | undefined) => {
+  if (arg === undefined) return NaN
+  const cleaned = arg.replace(/(?<=\d)f$/i, '')
+  return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(cleaned) ? parseFloat(cleaned) : NaN
+}
+
+const makePoint = (id: number, fieldX: number, fieldY: number, fields: Partial<Point>): Point => {
+  const { x, y } = fieldToPixel(fieldX, fieldY)
+  return { x, y, fieldX, fieldY, id, theta: 0, timeout: 1000, speed: LEMLIB_MAX_SPEED, forwards: true, motion: 'point', lead: DEFAULT_LEAD, actions: [], ...fields }
+}
+
+// Turn LemLib autonomous code back into a route
+// setPose gives the start, moveToPoint and moveToPose add points; turns only aim the robot, so they are skipped
+export const parseAutonCode = (code: string): ParsedAutonCode => {
+  const points: Point[] = []
+  const issues: CodeParseIssue[] = []
+
+  for (const statement of splitStatements(stripComments(code))) {
+    // Function signatures and control flow around the calls carry no motion
+    if (statement.opensBlock) continue
+    const flag = (message: string) => issues.push({ line: statement.line, text: statement.text.split('\n')[0], message })
+    const call = parseCall(statement.text)
+    if (!call) {
+      flag('not a chassis call')
+      continue
+    }
+
+    const [x, y] = [parseNumber(call.args[0]), parseNumber(call.args[1])]
+    const params = parseParams(call.method === 'moveToPose' ? call.args[4] : call.args[3])
+    const speed = params.maxSpeed !== undefined ? parseNumber(params.maxSpeed) : LEMLIB_MAX_SPEED
+    const forwards = params.forwards !== 'false'
+
+    switch (call.method) {
+      case 'setPose': {
+        const theta = parseNumber(call.args[2])
+        if ([x, y, theta].some(isNaN)) {
+          flag('setPose needs numeric x, y and theta')
+        } else if (points.length > 0) {
+          flag('setPose after the route started is not supported')
+        } else {
+          points.push(makePoint(0, x, y, { theta: normalizeDegrees(theta) }))
+        }
+        break
+      }
+      case 'turnToPoint':
+      case 'turnToHeading':
+      case 'waitUntilDone':
+        break
+      case 'moveToPoint':
+      case 'moveToPose': {
+        const isPose = call.method === 'moveToPose'
+        const theta = isPose ? parseNumber(call.args[2]) : 0
+        const timeout = parseNumber(call.args[isPose ? 3 : 2])
+        if ([x, y, theta, timeout, speed].some(isNaN)) {
+          flag(`${call.method} arguments must be numbers`)
+          break
+        }
+        if (points.length === 0) {
+          flag('no setPose before the first move, starting at (0, 0) facing 0°')
+          points.push(makePoint(0, 0, 0, {}))
+        }
+        const lead = params.lead !== undefined ? parseNumber(params.lead) : DEFAULT_LEAD
+        // Point moves end facing the way they drove, which matters if this turns out to be the last point
+        const prev = points[points.length - 1]
+        const arrival = round1(facingHeading(headingBetween(prev.fieldX, prev.fieldY, x, y), forwards))
+        points.push(makePoint(points.length, x, y, {
+          timeout,
+          speed: Math.min(127, Math.max(1, Math.round(speed))),
+          forwards,
+          motion: isPose ? 'pose' : 'point',
+          theta: isPose ? normalizeDegrees(theta) : arrival,
+          lead: isNaN(lead) ? DEFAULT_LEAD : lead,
+        }))
+        break
+      }
+      default:
+        flag(`${call.target}.${call.method} is not a supported LemLib motion`)
+    }
+  }
+
+  return { points, issues }
+}
@@ -0,0 +1,137 @@
+import type { FieldElement, FieldPosition, Point, RobotProfile } from './types'
+import { FIELD_HALF_INCHES, angleDifference, normalizeDegrees } from './geometry'
+import { facingHeading, getEffectiveTheta, getPoseAtDistance, getSegmentEndHeading, getSegmentStartHeading } from './path'
+import type { PathSample } from './path'
+
+// Spacing of the poses checked along the path (in) and while turning in place (degrees)
+const SWEEP_STEP = 1
+const TURN_STEP = 5
+
+export const FIELD_WALL = 'Field Wall'
+
+export interface RobotPose extends FieldPosition {
+  facing: number; // heading the robot body faces, degrees
+}
+
+export interface SegmentCollision {
+  segment: number; // index of the destination point
+  hits: string[]; // names of the elements hit, and FIELD_WALL if the robot leaves the field
+  pose: RobotPose; // first pose that collides, for drawing
+}
+
+// Corners of a rectangle of a given length along a heading and width across it
+const rectangleCorners = (center: FieldPosition, length: number, width: number, heading: number): FieldPosition[] => {
+  const radians = (heading * Math.PI) / 180
+  const forward = { fieldX: Math.sin(radians), fieldY: Math.cos(radians) }
+  const right = { fieldX: forward.fieldY, fieldY: -forward.fieldX }
+  return [[1, 1], [1, -1], [-1, -1], [-1, 1]].map(([f, r]) => ({
+    fieldX: center.fieldX + (forward.fieldX * f * length + right.fieldX * r * width) / 2,
+    fieldY: center.fieldY + (forward.fieldY * f * length + right.fieldY * r * width) / 2,
+  }))
+}
+
+export const getElementCorners = (element: FieldElement) => {
+  return rectangleCorners(element.center, element.length, element.width, element.heading)
+}
+
+// The pose follows the tracking center, so the body sits back from it by the tracking offset
+export const getRobotCorners = (pose: RobotPose, robot: RobotProfile) => {
+  const radians = (pose.facing * Math.PI) / 180
+  const { forward, right } = robot.trackingOffset
+  const center = {
+    fieldX: pose.fieldX - Math.sin(radians) * forward - Math.cos(radians) * right,
+    fieldY: pose.fieldY - Math.cos(radians) * forward + Math.sin(radians) * right,
+  }
+  return rectangleCorners(center, robot.length, robot.width, pose.facing)
+}
+
+// Separating axis test for two rectangles, a gap of up to tolerance (in) still counts as separate
+const rectanglesSeparated = (a: FieldPosition[], b: FieldPosition[], tolerance: number) => {
+  for (const corners of [a, b]) {
+    for (let i = 0; i < 2; i++) {
+      const axis = { fieldX: corners[i + 1].fieldX - corners[i].fieldX, fieldY: corners[i + 1].fieldY - corners[i].fieldY }
+      const length = Math.hypot(axis.fieldX, axis.fieldY)
+      const project = (c: FieldPosition) => (c.fieldX * axis.fieldX + c.fieldY * axis.fieldY) / length
+      const aProjected = a.map(project)
+      const bProjected = b.map(project)
+      if (Math.max(...aProjected) <= Math.min(...bProjected) + tolerance || Math.max(...bProjected) <= Math.min(...aProjected) + tolerance) {
+        return true
+      }
+    }
+  }
+  return false
+}
+
+// Touching edges don't count, so a robot driving along a wall or element doesn't hit it
+export const rectanglesOverlap = (a: FieldPosition[], b: FieldPosition[]) => !rectanglesSeparated(a, b, 0)
+
+// Touching edges count, like a robot set up flush against a tile line
+export const rectanglesTouch = (a: FieldPosition[], b: FieldPosition[]) => !rectanglesSeparated(a, b, -1e-6)
+
+const isOutsideField = (corners: FieldPosition[]) => {
+  return corners.some(c => Math.abs(c.fieldX) > FIELD_HALF_INCHES + 1e-6 || Math.abs(c.fieldY) > FIELD_HALF_INCHES + 1e-6)
+}
+
+export interface SegmentSweep {
+  segment: number; // index of the destination point
+  poses: RobotPose[]; // the turn in place at the start of the segment, then the drive to its end
+}
+
+// Poses the robot passes through along every segment, including the turn in place before it, like the simulation runs it
+// The first pose is the robot at the start and the last pose of each segment is the robot arriving at its point
+export const sweepRoute = (points: Point[], samples: PathSample[]): SegmentSweep[] => {
+  if (points.length < 2 || samples.length === 0) return []
+  const segmentEnds: number[] = []
+  samples.forEach(s => { segmentEnds[s.segment] = s.distance })
+
+  const sweeps: SegmentSweep[] = []
+  let distance = 0
+  let facing = getEffectiveTheta(points, 0)
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1]
+    const to = points[i]
+    const poses: RobotPose[] = []
+
+    // Pose moves have no turn in place, like the simulation
+    const targetFacing = facingHeading(getSegmentStartHeading(from, to), to.forwards)
+    const turn = to.motion === 'pose' ? 0 : angleDifference(facing, targetFacing)
+    const turnSteps = Math.ceil(Math.abs(turn) / TURN_STEP)
+    for (let k = 0; k < turnSteps; k++) {
+      poses.push({ fieldX: from.fieldX, fieldY: from.fieldY, facing: normalizeDegrees(facing + (turn * k) / turnSteps) })
+    }
+
+    const end = segmentEnds[i] ?? distance
+    const driveSteps = Math.max(1, Math.ceil((end - distance) / SWEEP_STEP))
+    for (let k = 0; k <= driveSteps; k++) {
+      // Stay just inside the segment at both ends, so the heading is this segment's and not its neighbour's
+      const along = distance + ((end - distance) * k) / driveSteps
+      const pose = getPoseAtDistance(points, samples, Math.min(Math.max(along, distance + 1e-6), end - 1e-6))
+      poses.push({ fieldX: pose.fieldX, fieldY: pose.fieldY, facing: facingHeading(pose.heading, to.forwards) })
+    }
+    sweeps.push({ segment: i, poses })
+
+    distance = end
+    facing = facingHeading(getSegmentEndHeading(from, to), to.forwards)
+  }
+  return sweeps
+}
+
+// Returns the segments where the swept robot hits a field element or leaves the field
+export const findCollisions = (sweeps: SegmentSweep[], robot: RobotProfile, elements: FieldElement[]): SegmentCollision[] => {
+  const elementCorners = elements.map(getElementCorners)
+  const collisions: SegmentCollision[] = []
+  sweeps.forEach(({ segment, poses }) => {
+    const hits: string[] = []
+    let firstHit: RobotPose | null = null
+    for (const pose of poses) {
+      const corners = getRobotCorners(pose, robot)
+      const names = elements.filter((_, e) => rectanglesOverlap(corners, elementCorners[e])).map(e => e.name)
+      if (isOutsideField(corners)) names.push(FIELD_WALL)
+      if (names.length > 0 && !firstHit) firstHit = pose
+      names.forEach(name => { if (!hits.includes(name)) hits.push(name) })
+    }
+    if (firstHit) collisions.push({ segment, hits, pose: firstHit })
+  })
+  return collisions
+}
@@ -0,0 +1,108 @@
+import type { ActionKind, ActionListProps, ActionTiming, PistonState, WaypointAction } from '../types'
+import { ACTION_KINDS, ACTION_TIMINGS, PISTON_STATES, createAction } from '../actions'
+import { NumberInput } from './NumberInput'
+import { SelectInput } from './SelectInput'
+
+export function ActionList({ actions, onChange }: ActionListProps) {
+  const update = (index: number, action: WaypointAction) => {
+    onChange(actions.map((a, i) => i === index ? action : a))
+  }
+
+  // Move an action one place up or down, actions run in list order
+  const move = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= actions.length) return
+    const reordered = [...actions]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(target, 0, moved)
+    onChange(reordered)
+  }
+
+  return (
+    <div className="action-list">
+      <h4>Actions</h4>
+      {actions.map((action, index) => (
+        <div key={index} className="action-item">
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <SelectInput
+              label="Action"
+              value={action.kind}
+              onChange={(v) => update(index, createAction(v as ActionKind, { timing: action.timing, distance: action.distance }))}
+              options={ACTION_KINDS}
+            />
+            <SelectInput
+              label="When"
+              value={action.timing}
+              onChange={(v) => update(index, { ...action, timing: v as ActionTiming })}
+              options={ACTION_TIMINGS}
+            />
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            {action.timing === 'distance' && (
+              <NumberInput
+                label="Distance (in)"
+                value={action.distance}
+                onChange={(v) => update(index, { ...action, distance: v })}
+                min={0}
+                step={2}
+              />
+            )}
+            {(action.kind === 'motor' || action.kind === 'pneumatic') && (
+              <label className="text-input">
+                {action.kind === 'motor' ? 'Motor Group' : 'Piston'}
+                <input
+                  type="text"
+                  value={action.target}
+                  onChange={(e) => update(index, { ...action, target: e.target.value })}
+                  spellCheck={false}
+                />
+              </label>
+            )}
+            {action.kind === 'motor' && (
+              <NumberInput
+                label="Velocity"
+                value={action.velocity}
+                onChange={(v) => update(index, { ...action, velocity: v })}
+                min={-127}
+                max={127}
+                step={10}
+              />
+            )}
+            {action.kind === 'pneumatic' && (
+              <SelectInput
+                label="State"
+                value={action.state}
+                onChange={(v) => update(index, { ...action, state: v as PistonState })}
+                options={PISTON_STATES}
+              />
+            )}
+            {action.kind === 'wait' && (
+              <NumberInput
+                label="Wait (ms)"
+                value={action.duration}
+                onChange={(v) => update(index, { ...action, duration: v })}
+                min={0}
+                step={50}
+              />
+            )}
+          </div>
+          {action.kind === 'custom' && (
+            <textarea
+              value={action.code}
+              onChange={(e) => update(index, { ...action, code: e.target.value })}
+              placeholder="arm.move_absolute(300, 100);"
+              rows={3}
+              spellCheck={false}
+            />
+          )}
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button onClick={() => move(index, -1)} disabled={index === 0}>Up</button>
+            <button onClick={() => move(index, 1)} disabled={index === actions.length - 1}>Down</button>
+            <button onClick={() => onChange(actions.filter((_, i) => i !== index))}>Remove</button>
+          </div>
+        </div>
+      ))}
+      <button onClick={() => onChange([...actions, createAction('motor')])}>Add Action</button>
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import type { ContextMenuProps } from '../types'
+
+export function ContextMenu({ left, top, items, onClose }: ContextMenuProps) {
+  return (
+    <div className="context-menu" style={{ left, top }}>
+      {items.map(item => (
+        <button
+          key={item.label}
+          disabled={item.disabled}
+          onClick={() => {
+            item.onSelect()
+            onClose()
+          }}
+        >
+          {item.label}
+        </button>
+      ))}
+      <button onClick={onClose}>Cancel</button>
+    </div>
+  )
+}
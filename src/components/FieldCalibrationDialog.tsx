@@ -0,0 +1,60 @@
+import type { FieldCalibrationDialogProps } from '../types'
+import { BUILTIN_FIELDS } from '../constants'
+import { cornersFromClicks, getCalibrationProblem } from '../geometry'
+import { SelectInput } from './SelectInput'
+
+// In the order of FieldCalibration.corners
+const CORNER_LABELS = ['top left (-72, 72)', 'top right (72, 72)', 'bottom right (72, -72)', 'bottom left (-72, -72)']
+
+export function FieldCalibrationDialog({ pending, onChange, onSave, onCancel }: FieldCalibrationDialogProps) {
+  // Two clicks give opposite corners, the other two are filled in from them
+  const cornerIndices = pending.cornerCount === 2 ? [0, 2] : [0, 1, 2, 3]
+  const nextCorner = cornerIndices[pending.clicks.length]
+  const done = nextCorner === undefined
+  const corners = cornersFromClicks(pending.clicks, pending.cornerCount)
+  const problem = corners && getCalibrationProblem(corners)
+
+  return (
+    <div className="dialog">
+      <h4>Calibrate field image</h4>
+      <label className="text-input">
+        Name
+        <input
+          type="text"
+          value={pending.name}
+          onChange={(e) => onChange({ ...pending, name: e.target.value })}
+        />
+      </label>
+      <div style={{ display: 'flex', gap: '1rem' }}>
+        <SelectInput
+          label="Corners"
+          value={String(pending.cornerCount)}
+          onChange={(v) => onChange({ ...pending, cornerCount: Number(v) === 2 ? 2 : 4, clicks: [] })}
+          options={[
+            { value: '2', label: '2 (top-down image)' },
+            { value: '4', label: '4 (angled photo)' }
+          ]}
+        />
+        <SelectInput
+          label="Field Elements"
+          value={pending.layout}
+          onChange={(v) => onChange({ ...pending, layout: v })}
+          options={[
+            ...BUILTIN_FIELDS.map(f => ({ value: f.layout, label: f.name })),
+            { value: '', label: 'None' }
+          ]}
+        />
+      </div>
+      <div>
+        {done
+          ? problem ? `${problem} Reset and place the corners again.` : `All ${pending.cornerCount} corners placed.`
+          : `Click the ${CORNER_LABELS[nextCorner]} corner of the field (${pending.clicks.length + 1} of ${pending.cornerCount}).`}
+      </div>
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button onClick={onCancel}>Cancel</button>
+        <button onClick={() => onChange({ ...pending, clicks: [] })} disabled={pending.clicks.length === 0}>Reset</button>
+        <button className="selected" onClick={onSave} disabled={!done || !!problem || !pending.name.trim()}>Save Field</button>
+      </div>
+    </div>
+  )
+}
@@ -7,6 +7,7 @@ export function IconButton({
   isActive = false,
   activeIconSrc,
   size = 18,
+  disabled = false,
 }: IconButtonProps) {
   const currentIcon = isActive && activeIconSrc ? activeIconSrc : iconSrc
   const isIconOnly = text === ''
@@ -14,6 +15,7 @@ export function IconButton({
   return (
     <button
       onClick={onClick}
+      disabled={disabled}
       style={{
         display: 'flex',
         alignItems: 'center',
@@ -29,6 +31,7 @@ export function IconButton({
           height: size,
           pointerEvents: 'none',
           filter: 'brightness(0) invert(0.95)',
+          opacity: disabled ? 0.4 : 1,
         }}
       />
       {!isIconOnly && text}
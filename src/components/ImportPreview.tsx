@@ -0,0 +1,59 @@
+import type { ImportPreviewProps } from '../types'
+import { NumberInput } from './NumberInput'
+import { SelectInput } from './SelectInput'
+
+export function ImportPreview({ pendingImport, pointCount, issues, onChange, onConfirm, onCancel }: ImportPreviewProps) {
+  return (
+    <div className="dialog">
+      <h4>Import {pendingImport.fileName}</h4>
+      {pendingImport.kind === 'code' ? (
+        <>
+          <div>Paste LemLib autonomous code, {pointCount} points found</div>
+          <textarea
+            value={pendingImport.code}
+            onChange={(e) => onChange({ ...pendingImport, code: e.target.value })}
+            placeholder="chassis.setPose(0, 0, 0);"
+            rows={10}
+            spellCheck={false}
+          />
+          {issues.length > 0 && (
+            <div className="import-issues">
+              {issues.map((issue, i) => (
+                <div key={i}>
+                  <strong>Line {issue.line}:</strong> <code>{issue.text}</code> ({issue.message})
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      ) : pendingImport.kind === 'jerryio' ? (
+        <>
+          <div>path.jerryio project, {pointCount} points</div>
+          {pendingImport.paths.length > 1 && (
+            <SelectInput
+              label="Path"
+              value={String(pendingImport.pathIndex)}
+              onChange={(v) => onChange({ ...pendingImport, pathIndex: Number(v) })}
+              options={pendingImport.paths.map((path, i) => ({ value: String(i), label: path.name }))}
+            />
+          )}
+        </>
+      ) : (
+        <>
+          <div>LemLib path, {pendingImport.samples.length} samples down to {pointCount} points</div>
+          <NumberInput
+            label="Tolerance (in)"
+            value={pendingImport.tolerance}
+            onChange={(v) => onChange({ ...pendingImport, tolerance: v })}
+            min={0.1}
+            step={0.5}
+          />
+        </>
+      )}
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button onClick={onCancel}>Cancel</button>
+        <button className="selected" onClick={onConfirm} disabled={pointCount === 0}>Replace Route</button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import type { LintPanelProps } from '../types'
+
+export function LintPanel({ issues, selectedIndex, onSelect }: LintPanelProps) {
+  return (
+    <div className="lint-panel">
+      {issues.length === 0 && <span style={{ color: 'var(--text-faded)' }}>No problems found</span>}
+      {issues.map((issue, i) => (
+        <span
+          key={i}
+          className={`lint-issue ${issue.severity}`}
+          onClick={() => onSelect(issue.pointIndex)}
+          style={{ backgroundColor: issue.pointIndex === selectedIndex ? '#20408080' : 'transparent' }}
+        >
+          <strong>{issue.severity === 'error' ? 'Error' : 'Warning'}</strong> point {issue.pointIndex}: {issue.message}
+        </span>
+      ))}
+    </div>
+  )
+}
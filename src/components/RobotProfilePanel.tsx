@@ -0,0 +1,106 @@
+import type { RobotProfilePanelProps } from '../types'
+import { NumberInput } from './NumberInput'
+import { SelectInput } from './SelectInput'
+
+export function RobotProfilePanel({ robot, profiles, onChange, onSelect, onSave, onCreate, onDelete }: RobotProfilePanelProps) {
+  const saved = profiles.find(p => p.id === robot.id)
+  const isSaved = saved !== undefined
+  // Edits change the route's copy of the robot until they are saved back to the profile
+  const hasChanges = !saved || JSON.stringify(saved) !== JSON.stringify(robot)
+
+  return (
+    <div className="robot-profile">
+      <SelectInput
+        label="Robot"
+        value={isSaved ? robot.id : ''}
+        onChange={onSelect}
+        options={[
+          ...(isSaved ? [] : [{ value: '', label: `${robot.name} (unsaved)` }]),
+          ...profiles.map(p => ({ value: p.id, label: p.name })),
+        ]}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <button onClick={onSave} disabled={!hasChanges}>Save</button>
+        <button onClick={onCreate}>New</button>
+        <button onClick={onDelete} disabled={!isSaved}>Delete</button>
+      </div>
+      <label className="text-input">
+        Name
+        <input
+          type="text"
+          value={robot.name}
+          onChange={(e) => onChange({ ...robot, name: e.target.value })}
+        />
+      </label>
+      <div style={{ display: 'flex', gap: '1rem' }}>
+        <NumberInput
+          label="Bot Length (in)"
+          value={robot.length}
+          onChange={(v) => onChange({ ...robot, length: v })}
+          min={1}
+          step={0.5}
+        />
+        <NumberInput
+          label="Bot Width (in)"
+          value={robot.width}
+          onChange={(v) => onChange({ ...robot, width: v })}
+          min={1}
+          step={0.5}
+        />
+      </div>
+      <div style={{ display: 'flex', gap: '1rem' }}>
+        <NumberInput
+          label="Tracking Fwd (in)"
+          value={robot.trackingOffset.forward}
+          onChange={(v) => onChange({ ...robot, trackingOffset: { ...robot.trackingOffset, forward: v } })}
+          min={-robot.length / 2}
+          max={robot.length / 2}
+          step={0.5}
+        />
+        <NumberInput
+          label="Tracking Right (in)"
+          value={robot.trackingOffset.right}
+          onChange={(v) => onChange({ ...robot, trackingOffset: { ...robot.trackingOffset, right: v } })}
+          min={-robot.width / 2}
+          max={robot.width / 2}
+          step={0.5}
+        />
+      </div>
+      <div style={{ display: 'flex', gap: '1rem' }}>
+        <NumberInput
+          label="Wheel (in)"
+          value={robot.wheelDiameter}
+          onChange={(v) => onChange({ ...robot, wheelDiameter: v })}
+          min={0.5}
+          step={0.25}
+        />
+        <NumberInput
+          label="Gear Ratio"
+          value={robot.gearRatio}
+          onChange={(v) => onChange({ ...robot, gearRatio: v })}
+          min={0.05}
+          step={0.05}
+        />
+      </div>
+      <div style={{ display: 'flex', gap: '1rem' }}>
+        <NumberInput
+          label="Motor RPM"
+          value={robot.maxRpm}
+          onChange={(v) => onChange({ ...robot, maxRpm: v })}
+          min={1}
+          step={100}
+        />
+        <label className="text-input">
+          Chassis Variable
+          <input
+            type="text"
+            value={robot.chassisName}
+            placeholder="default"
+            onChange={(e) => onChange({ ...robot, chassisName: e.target.value.trim() })}
+            spellCheck={false}
+          />
+        </label>
+      </div>
+    </div>
+  )
+}
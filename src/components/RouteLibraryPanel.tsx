@@ -0,0 +1,48 @@
+import type { RouteLibraryPanelProps, RouteTransform } from '../types'
+import { ROUTE_TRANSFORMS } from '../transforms'
+import { SelectInput } from './SelectInput'
+
+export function RouteLibraryPanel({ library, onSelect, onCreate, onDuplicate, onRename, onDelete, onLinkedCopy, onUnlink }: RouteLibraryPanelProps) {
+  const active = library.routes.find(r => r.id === library.activeId)
+  const source = active?.link && library.routes.find(r => r.id === active.link?.sourceId)
+  const linkLabel = ROUTE_TRANSFORMS.find(t => t.value === active?.link?.transform)?.label
+
+  return (
+    <div className="container" id="route-library">
+      <h3>Routes</h3>
+      <div className="route-list">
+        {library.routes.map(route => (
+          <div
+            key={route.id}
+            className={`point-item ${route.id === library.activeId ? 'selected' : ''}`}
+            onClick={() => onSelect(route.id)}
+          >
+            <span>{route.name}</span>
+            <span className="route-field">{route.link ? 'linked · ' : ''}{route.field}</span>
+          </div>
+        ))}
+      </div>
+      {source && (
+        <div className="route-link">
+          <span>Linked to {source.name} ({linkLabel}), edits to either route update both</span>
+          <button onClick={onUnlink}>Unlink</button>
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <button onClick={onCreate}>New</button>
+        <button onClick={onDuplicate}>Duplicate</button>
+        <button onClick={onRename}>Rename</button>
+        <button onClick={onDelete}>Delete</button>
+      </div>
+      {/* Copies of a linked route would need a chain of links, so only source routes can have them */}
+      {!active?.link && (
+        <SelectInput
+          label="Linked Copy"
+          value=""
+          onChange={(v) => { if (v) onLinkedCopy(v as RouteTransform) }}
+          options={[{ value: '', label: 'Choose a transform…' }, ...ROUTE_TRANSFORMS]}
+        />
+      )}
+    </div>
+  )
+}
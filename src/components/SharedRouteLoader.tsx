@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { decodeShareData } from '../share'
+import { loadLibrary, saveLibrary } from '../storage'
+
+// Opens a /share#<data> link: adds the shared route to the library as a new route and switches to it
+export function SharedRouteLoader() {
+  const location = useLocation()
+  const navigate = useNavigate()
+  // StrictMode runs effects twice in development, only import the route once
+  const handledRef = useRef(false)
+
+  useEffect(() => {
+    if (handledRef.current) return
+    handledRef.current = true
+    const data = location.hash.slice(1)
+    decodeShareData(data)
+      .then(route => {
+        const library = loadLibrary()
+        saveLibrary({ routes: [...library.routes, route], activeId: route.id })
+      })
+      .catch(err => {
+        console.warn('Failed to open shared route', err)
+        alert('This share link is invalid or from a newer version')
+      })
+      .finally(() => navigate('/', { replace: true }))
+  }, [location.hash, navigate])
+
+  return null
+}
@@ -0,0 +1,53 @@
+import type { SnapSettingsPanelProps } from '../types'
+import { GRID_SIZES } from '../snapping'
+import { Checkbox } from './Checkbox'
+import { NumberInput } from './NumberInput'
+import { SelectInput } from './SelectInput'
+
+export function SnapSettingsPanel({ settings, onChange }: SnapSettingsPanelProps) {
+  return (
+    <div className="snap-settings">
+      <h4>Snapping</h4>
+      <Checkbox
+        label="Snap to Grid"
+        iconSrc='/grid-dots.svg'
+        checked={settings.grid}
+        onChange={(grid) => onChange({ ...settings, grid })}
+      />
+      {settings.grid && (
+        <SelectInput
+          label="Grid Size"
+          value={String(settings.gridSize)}
+          onChange={(v) => onChange({ ...settings, gridSize: Number(v) })}
+          options={GRID_SIZES}
+        />
+      )}
+      <Checkbox
+        label="Snap to Field Features"
+        iconSrc='/map-pin.svg'
+        checked={settings.features}
+        onChange={(features) => onChange({ ...settings, features })}
+      />
+      <Checkbox
+        label="Snap Heading to 45°"
+        iconSrc='/angle.svg'
+        checked={settings.heading}
+        onChange={(heading) => onChange({ ...settings, heading })}
+      />
+      <Checkbox
+        label="Snap to Distance"
+        iconSrc='/ruler.svg'
+        checked={settings.distance}
+        onChange={(distance) => onChange({ ...settings, distance })}
+      />
+      {settings.distance && (
+        <NumberInput
+          label="Distance (in)"
+          value={settings.fixedDistance}
+          onChange={(fixedDistance) => onChange({ ...settings, fixedDistance })}
+          step={6}
+        />
+      )}
+    </div>
+  )
+}
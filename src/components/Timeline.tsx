@@ -0,0 +1,127 @@
+import { useRef } from 'react'
+import type { PointerEvent } from 'react'
+import type { TimelineProps } from '../types'
+
+// Timeouts snap to this many ms while dragging a block edge, and never go below it
+const TIMEOUT_STEP = 50
+
+// Seconds between ruler ticks, wider for the 60 s skills period
+const getTickStep = (span: number) => span <= 20 ? 1 : span <= 60 ? 5 : 10
+
+export function Timeline({ blocks, markers, timeLimit, playhead, selectedIndex, editable, onSelect, onSeek, onResizeStart, onResize, onResizeEnd }: TimelineProps) {
+  const trackRef = useRef<HTMLDivElement>(null)
+  const seekingRef = useRef(false)
+  // The scale is kept from the start of a drag, so the edge stays under the pointer while the route grows
+  const resizeRef = useRef<{ pointIndex: number; x: number; duration: number; pixelsPerSecond: number } | null>(null)
+
+  const total = blocks.length > 0 ? blocks[blocks.length - 1].start + blocks[blocks.length - 1].duration : 0
+  const span = Math.max(total, timeLimit)
+  const percent = (time: number) => `${(time / span) * 100}%`
+  const tickStep = getTickStep(span)
+  const ticks = Array.from({ length: Math.floor(span / tickStep) + 1 }, (_, i) => i * tickStep)
+
+  const getTimeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return 0
+    return Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1) * span
+  }
+
+  const handleSeekDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    seekingRef.current = true
+    onSeek(Math.min(getTimeAt(e.clientX), total))
+  }
+
+  const handleSeekMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (seekingRef.current) onSeek(Math.min(getTimeAt(e.clientX), total))
+  }
+
+  const handleEdgeDown = (e: PointerEvent<HTMLDivElement>, pointIndex: number, duration: number) => {
+    e.stopPropagation()
+    const width = trackRef.current?.getBoundingClientRect().width ?? 0
+    if (width === 0) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    resizeRef.current = { pointIndex, x: e.clientX, duration, pixelsPerSecond: width / span }
+    onResizeStart()
+  }
+
+  const handleEdgeMove = (e: PointerEvent<HTMLDivElement>) => {
+    const resize = resizeRef.current
+    if (!resize) return
+    const seconds = resize.duration + (e.clientX - resize.x) / resize.pixelsPerSecond
+    onResize(resize.pointIndex, Math.max(TIMEOUT_STEP, Math.round((seconds * 1000) / TIMEOUT_STEP) * TIMEOUT_STEP))
+  }
+
+  const handleEdgeUp = () => {
+    if (!resizeRef.current) return
+    resizeRef.current = null
+    onResizeEnd()
+  }
+
+  if (blocks.length === 0) {
+    return (
+      <div className="timeline">
+        <span style={{ color: 'var(--text-faded)' }}>Add at least two points to see the timeline</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="timeline">
+      <div className="timeline-track" ref={trackRef}>
+        <div
+          className="timeline-ruler"
+          onPointerDown={handleSeekDown}
+          onPointerMove={handleSeekMove}
+          onPointerUp={() => { seekingRef.current = false }}
+          onPointerCancel={() => { seekingRef.current = false }}
+        >
+          {ticks.map(tick => (
+            <span key={tick} className="timeline-tick" style={{ left: percent(tick) }}>{tick}s</span>
+          ))}
+        </div>
+        <div className="timeline-markers">
+          {markers.map((marker, i) => (
+            <span
+              key={i}
+              className="timeline-marker"
+              style={{ left: percent(marker.time) }}
+              title={`Point ${marker.pointIndex}: ${marker.label}`}
+              onClick={() => onSelect(marker.pointIndex)}
+            />
+          ))}
+        </div>
+        <div className="timeline-blocks">
+          {blocks.map(block => (
+            <div
+              key={block.pointIndex}
+              className={`timeline-block${block.pointIndex === selectedIndex ? ' selected' : ''}${block.overTimeout ? ' over' : ''}`}
+              style={{ left: percent(block.start), width: percent(block.duration) }}
+              title={block.turnTime > 0
+                ? `${block.pointIndex - 1} → ${block.pointIndex}: turn ${block.turnTime.toFixed(2)}s + drive ${(block.duration - block.turnTime).toFixed(2)}s`
+                : `${block.pointIndex - 1} → ${block.pointIndex}: ${block.duration.toFixed(2)}s`}
+              onClick={() => onSelect(block.pointIndex)}
+            >
+              {block.turnTime > 0 && (
+                <div className="timeline-turn" style={{ width: `${(block.turnTime / block.duration) * 100}%` }} />
+              )}
+              <span className="timeline-label">{block.pointIndex}</span>
+              {editable && (
+                <div
+                  className="timeline-edge"
+                  onPointerDown={(e) => handleEdgeDown(e, block.pointIndex, block.duration)}
+                  onPointerMove={handleEdgeMove}
+                  onPointerUp={handleEdgeUp}
+                  onPointerCancel={handleEdgeUp}
+                  onClick={(e) => e.stopPropagation()}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+        <div className={`timeline-limit${total > timeLimit ? ' over' : ''}`} style={{ left: percent(timeLimit) }} title={`${timeLimit}s autonomous period`} />
+        <div className="timeline-playhead" style={{ left: percent(playhead) }} />
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,10 @@
+import type { FieldPreset } from './types'
+import { DEFAULT_CALIBRATION } from './geometry'
 import h2hFieldImage from './assets/V5RC-PushBack-H2H-TopDown.png'
 import skillsFieldImage from './assets/V5RC-PushBack-Skills-TopDown.png'
 
-export const fieldImages = {
-  h2h: h2hFieldImage,
-  skills: skillsFieldImage
-}
+// Fields that ship with the app, uploaded ones are saved alongside them in localStorage
+export const BUILTIN_FIELDS: FieldPreset[] = [
+  { id: 'h2h', name: 'Vex V5RC Push Back H2H', image: h2hFieldImage, calibration: DEFAULT_CALIBRATION, layout: 'h2h' },
+  { id: 'skills', name: 'Vex V5RC Push Back Skills', image: skillsFieldImage, calibration: DEFAULT_CALIBRATION, layout: 'skills' },
+]
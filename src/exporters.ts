@@ -0,0 +1,328 @@
+import type { RouteSheet } from './types'
+
+// Save a file the browser made, like clicking a download link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) => {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`)), type, quality)
+  })
+}
+
+// ---- GIF ----
+
+// Colours kept from the first frame, on top of an even spread so thin lines drawn later still find a close match
+const GIF_CUBE_LEVELS = [0, 85, 170, 255]
+const GIF_PALETTE_SIZE = 256
+const LZW_MIN_CODE_SIZE = 8
+const LZW_MAX_CODE = 4096
+
+const buildPalette = (rgba: Uint8ClampedArray): number[][] => {
+  const palette: number[][] = []
+  GIF_CUBE_LEVELS.forEach(r => GIF_CUBE_LEVELS.forEach(g => GIF_CUBE_LEVELS.forEach(b => palette.push([r, g, b]))))
+  // Most common colours, at 5 bits per channel
+  const counts = new Map<number, number>()
+  for (let i = 0; i < rgba.length; i += 4) {
+    const key = ((rgba[i] >> 3) << 10) | ((rgba[i + 1] >> 3) << 5) | (rgba[i + 2] >> 3)
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+  const popular = [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, GIF_PALETTE_SIZE - palette.length)
+  popular.forEach(([key]) => palette.push([((key >> 10) & 31) * 8 + 4, ((key >> 5) & 31) * 8 + 4, (key & 31) * 8 + 4]))
+  while (palette.length < GIF_PALETTE_SIZE) palette.push([0, 0, 0])
+  return palette
+}
+
+// Variable length LZW codes packed into the sub-blocks of a GIF image
+const lzwEncode = (indices: Uint8Array): Uint8Array<ArrayBuffer> => {
+  const clearCode = 1 << LZW_MIN_CODE_SIZE
+  const endCode = clearCode + 1
+  let codeSize = LZW_MIN_CODE_SIZE + 1
+  let nextCode = endCode + 1
+  let table = new Map<number, number>()
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+
+  const write = (code: number) => {
+    buffer |= code << bits
+    bits += codeSize
+    while (bits >= 8) {
+      bytes.push(buffer & 0xff)
+      buffer >>>= 8
+      bits -= 8
+    }
+  }
+
+  write(clearCode)
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i]
+    const code = table.get(key)
+    if (code !== undefined) {
+      prefix = code
+      continue
+    }
+    write(prefix)
+    if (nextCode === LZW_MAX_CODE) {
+      // The table is full, start over
+      write(clearCode)
+      table = new Map()
+      codeSize = LZW_MIN_CODE_SIZE + 1
+      nextCode = endCode + 1
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++
+      table.set(key, nextCode++)
+    }
+    prefix = indices[i]
+  }
+  write(prefix)
+  write(endCode)
+  if (bits > 0) bytes.push(buffer & 0xff)
+
+  // Sub-blocks of at most 255 bytes, ended by an empty one
+  const blocks: number[] = []
+  for (let i = 0; i < bytes.length; i += 255) {
+    const chunk = bytes.slice(i, i + 255)
+    blocks.push(chunk.length, ...chunk)
+  }
+  blocks.push(0)
+  return new Uint8Array(blocks)
+}
+
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff]
+
+// Looping GIF built one frame at a time, so a long animation never holds every frame in memory
+// Every frame shares the palette picked from the first one
+export const createGifEncoder = (width: number, height: number, delayMs: number) => {
+  const parts: Uint8Array<ArrayBuffer>[] = []
+  let palette: number[][] | null = null
+  // Palette index for each 5 bit per channel colour, -1 until it is first needed
+  const lookup = new Int16Array(1 << 15).fill(-1)
+
+  const nearest = (r: number, g: number, b: number) => {
+    let best = 0
+    let bestDistance = Infinity
+    palette!.forEach(([pr, pg, pb], i) => {
+      const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2
+      if (distance < bestDistance) {
+        bestDistance = distance
+        best = i
+      }
+    })
+    return best
+  }
+
+  const addFrame = (rgba: Uint8ClampedArray) => {
+    if (!palette) {
+      palette = buildPalette(rgba)
+      parts.push(new Uint8Array([
+        ...Array.from('GIF89a', c => c.charCodeAt(0)),
+        ...uint16(width), ...uint16(height),
+        0xf7, 0, 0, // 256 colour global table
+        ...palette.flat(),
+        // Loop forever
+        0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', c => c.charCodeAt(0)), 0x03, 0x01, 0x00, 0x00, 0x00,
+      ]))
+    }
+    const indices = new Uint8Array(width * height)
+    for (let i = 0; i < indices.length; i++) {
+      const r = rgba[i * 4]
+      const g = rgba[i * 4 + 1]
+      const b = rgba[i * 4 + 2]
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+      if (lookup[key] === -1) lookup[key] = nearest(r, g, b)
+      indices[i] = lookup[key]
+    }
+    parts.push(new Uint8Array([
+      0x21, 0xf9, 0x04, 0x00, ...uint16(Math.round(delayMs / 10)), 0x00, 0x00,
+      0x2c, ...uint16(0), ...uint16(0), ...uint16(width), ...uint16(height), 0x00,
+      LZW_MIN_CODE_SIZE,
+    ]))
+    parts.push(lzwEncode(indices))
+  }
+
+  const finish = () => new Blob([...parts, new Uint8Array([0x3b])], { type: 'image/gif' })
+
+  return { addFrame, finish }
+}
+
+// ---- WebM ----
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+export const canRecordWebm = () => typeof MediaRecorder !== 'undefined' && WEBM_TYPES.some(t => MediaRecorder.isTypeSupported(t))
+
+// Record a canvas while drawFrame animates it, in real time since MediaRecorder timestamps frames as they come
+export const recordWebm = (canvas: HTMLCanvasElement, fps: number, durationMs: number, drawFrame: (timeMs: number) => void) => {
+  return new Promise<Blob>((resolve, reject) => {
+    const mimeType = WEBM_TYPES.find(t => MediaRecorder.isTypeSupported(t))
+    if (!mimeType) {
+      reject(new Error('This browser cannot record WebM video'))
+      return
+    }
+    const recorder = new MediaRecorder(canvas.captureStream(fps), { mimeType })
+    const chunks: Blob[] = []
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data) }
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }))
+    recorder.onerror = () => reject(new Error('Recording failed'))
+
+    drawFrame(0)
+    recorder.start()
+    const start = performance.now()
+    const step = (now: number) => {
+      const time = Math.min(now - start, durationMs)
+      drawFrame(time)
+      if (time < durationMs) requestAnimationFrame(step)
+      // Hold the last frame briefly so players don't cut it off
+      else setTimeout(() => recorder.stop(), 500)
+    }
+    requestAnimationFrame(step)
+  })
+}
+
+// ---- PDF ----
+
+// US Letter landscape, in points
+const PAGE_WIDTH = 792
+const PAGE_HEIGHT = 612
+const MARGIN = 36
+const FIELD_SIZE = 396
+// Courier is 0.6 em wide
+const COURIER_WIDTH = 0.6
+const TABLE_FONT_SIZE = 7.5
+const CODE_FONT_SIZE = 7
+const LINE_SPACING = 1.3
+
+type PdfFont = 'F1' | 'F2' | 'F3' // Helvetica, Helvetica-Bold, Courier
+
+interface PdfText {
+  x: number;
+  y: number; // baseline, from the bottom of the page
+  size: number;
+  font: PdfFont;
+  text: string;
+}
+
+interface PdfPage {
+  texts: PdfText[];
+  image?: { x: number; y: number; size: number };
+}
+
+// Strings are written in WinAnsi, which covers ° but not arrows
+const pdfString = (text: string) => {
+  const latin = text.replace(/→/g, '->').replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+  return `(${latin.replace(/[\\()]/g, c => `\\${c}`)})`
+}
+
+const latin1Bytes = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff)
+
+// Write the pages out as PDF objects, the field image is a JPEG shared by every page that shows it
+const writePdf = (pages: PdfPage[], jpeg: Uint8Array<ArrayBuffer>, imageWidth: number, imageHeight: number): Blob => {
+  const parts: Uint8Array<ArrayBuffer>[] = []
+  const offsets: number[] = []
+  let length = 0
+  const push = (part: Uint8Array<ArrayBuffer>) => {
+    parts.push(part)
+    length += part.length
+  }
+  const object = (id: number, body: string, stream?: Uint8Array<ArrayBuffer>) => {
+    offsets[id] = length
+    push(latin1Bytes(`${id} 0 obj\n${body}\n`))
+    if (stream) {
+      push(latin1Bytes('stream\n'))
+      push(stream)
+      push(latin1Bytes('\nendstream\n'))
+    }
+    push(latin1Bytes('endobj\n'))
+  }
+
+  // 1 catalog, 2 page tree, 3-5 fonts, 6 image, then a page and its contents for each page
+  const pageIds = pages.map((_, i) => 7 + i * 2)
+  push(latin1Bytes('%PDF-1.4\n'))
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>')
+  object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`)
+  object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+  object(5, '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>')
+  object(6, `<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>`, jpeg)
+
+  pages.forEach((page, i) => {
+    const commands: string[] = []
+    if (page.image) {
+      const { x, y, size } = page.image
+      commands.push(`q ${size} 0 0 ${size} ${x} ${y} cm /Im1 Do Q`)
+    }
+    page.texts.forEach(t => {
+      commands.push(`BT /${t.font} ${t.size} Tf ${t.x.toFixed(2)} ${t.y.toFixed(2)} Td ${pdfString(t.text)} Tj ET`)
+    })
+    const content = latin1Bytes(commands.join('\n'))
+    object(pageIds[i], `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> /XObject << /Im1 6 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`)
+    object(pageIds[i] + 1, `<< /Length ${content.length} >>`, content)
+  })
+
+  const objectCount = 7 + pages.length * 2
+  const xrefOffset = length
+  const xref = ['xref', `0 ${objectCount}`, '0000000000 65535 f ']
+  for (let id = 1; id < objectCount; id++) xref.push(`${String(offsets[id]).padStart(10, '0')} 00000 n `)
+  push(latin1Bytes(`${xref.join('\n')}\ntrailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`))
+  return new Blob(parts, { type: 'application/pdf' })
+}
+
+// Cut a line into pieces that fit a number of monospace characters
+const wrapLine = (line: string, columns: number) => {
+  if (line.length <= columns) return [line]
+  const pieces: string[] = []
+  for (let i = 0; i < line.length; i += columns) pieces.push(line.slice(i, i + columns))
+  return pieces
+}
+
+// Table columns padded to the widest cell, for monospace text
+const formatTable = (header: string[], rows: string[][]) => {
+  const widths = header.map((h, c) => Math.max(h.length, ...rows.map(r => r[c].length)))
+  const format = (cells: string[]) => cells.map((cell, c) => cell.padEnd(widths[c])).join('  ').trimEnd()
+  return [format(header), widths.map(w => '-'.repeat(w)).join('  '), ...rows.map(format)]
+}
+
+// A printable sheet: the field with the route beside the point table, then the generated code
+// Text that doesn't fit beside the field carries on over full width pages
+export const buildRouteSheetPdf = (sheet: RouteSheet) => {
+  const pages: PdfPage[] = [{ texts: [], image: { x: MARGIN, y: PAGE_HEIGHT - MARGIN - 40 - FIELD_SIZE, size: FIELD_SIZE } }]
+  pages[0].texts.push({ x: MARGIN, y: PAGE_HEIGHT - MARGIN - 14, size: 16, font: 'F2', text: sheet.title })
+  pages[0].texts.push({ x: MARGIN, y: PAGE_HEIGHT - MARGIN - 30, size: 9, font: 'F1', text: sheet.details.join('   ') })
+
+  // Lines flow down the column beside the field, then down new pages
+  let page = pages[0]
+  let left = MARGIN + FIELD_SIZE + 20
+  let y = PAGE_HEIGHT - MARGIN - 50
+  const columns = (size: number) => Math.floor((PAGE_WIDTH - MARGIN - left) / (size * COURIER_WIDTH))
+  const addLine = (text: string, size: number, font: PdfFont) => {
+    if (y < MARGIN) {
+      page = { texts: [] }
+      pages.push(page)
+      left = MARGIN
+      y = PAGE_HEIGHT - MARGIN - size
+    }
+    page.texts.push({ x: left, y, size, font, text })
+    y -= size * LINE_SPACING
+  }
+  const addMonospace = (lines: string[], size: number) => {
+    lines.forEach(line => wrapLine(line, columns(size)).forEach(piece => addLine(piece, size, 'F3')))
+  }
+
+  addLine('Points', 11, 'F2')
+  addMonospace(formatTable(sheet.table.header, sheet.table.rows), TABLE_FONT_SIZE)
+  y -= 10
+  addLine('Code', 11, 'F2')
+  addMonospace(sheet.code, CODE_FONT_SIZE)
+
+  return writePdf(pages, sheet.field.jpeg, sheet.field.width, sheet.field.height)
+}
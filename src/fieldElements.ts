@@ -0,0 +1,51 @@
+import type { FieldElement, FieldFeature } from './types'
+
+// Push Back structures, measured from the top-down field renders
+// Both fields share the same layout, only the game objects differ
+const PUSH_BACK_ELEMENTS: FieldElement[] = [
+  { name: 'Top Long Goal', center: { fieldX: 0, fieldY: 48 }, length: 49, width: 5, heading: 90 },
+  { name: 'Bottom Long Goal', center: { fieldX: 0, fieldY: -48 }, length: 49, width: 5, heading: 90 },
+  { name: 'Center Goal', center: { fieldX: 0, fieldY: 0 }, length: 26, width: 6, heading: 45 },
+  { name: 'Center Goal', center: { fieldX: 0, fieldY: 0 }, length: 26, width: 6, heading: 135 },
+  { name: 'Top Left Loader', center: { fieldX: -69, fieldY: 48 }, length: 6, width: 6, heading: 0 },
+  { name: 'Bottom Left Loader', center: { fieldX: -69, fieldY: -48 }, length: 6, width: 6, heading: 0 },
+  { name: 'Top Right Loader', center: { fieldX: 69, fieldY: 48 }, length: 6, width: 6, heading: 0 },
+  { name: 'Bottom Right Loader', center: { fieldX: 69, fieldY: -48 }, length: 6, width: 6, heading: 0 },
+  { name: 'Red Park Zone', center: { fieldX: -63.5, fieldY: 0 }, length: 19.5, width: 17, heading: 0 },
+  { name: 'Blue Park Zone', center: { fieldX: 63.5, fieldY: 0 }, length: 19.5, width: 17, heading: 0 },
+]
+
+// Spots worth lining up with: goal ends, loaders, park zones and the field center
+const PUSH_BACK_FEATURES: FieldFeature[] = [
+  { name: 'Field Center', position: { fieldX: 0, fieldY: 0 } },
+  ...[48, -48].flatMap(y => {
+    const side = y > 0 ? 'Top' : 'Bottom'
+    return [
+      { name: `${side} Long Goal Left End`, position: { fieldX: -24, fieldY: y } },
+      { name: `${side} Long Goal Center`, position: { fieldX: 0, fieldY: y } },
+      { name: `${side} Long Goal Right End`, position: { fieldX: 24, fieldY: y } },
+    ]
+  }),
+  ...PUSH_BACK_ELEMENTS.filter(e => e.name.endsWith('Loader') || e.name.endsWith('Park Zone')).map(e => ({ name: e.name, position: e.center })),
+]
+
+// Keyed by field layout, the id of a built-in field
+export const fieldElements: Record<string, FieldElement[]> = {
+  h2h: PUSH_BACK_ELEMENTS,
+  skills: PUSH_BACK_ELEMENTS,
+}
+
+// The tiles along each alliance's wall, a robot has to start touching one of them
+// Skills runs always start on the red side
+const RED_STARTING_TILES: FieldElement = { name: 'Red Starting Tiles', center: { fieldX: -60, fieldY: 0 }, length: 144, width: 24, heading: 0 }
+const BLUE_STARTING_TILES: FieldElement = { name: 'Blue Starting Tiles', center: { fieldX: 60, fieldY: 0 }, length: 144, width: 24, heading: 0 }
+
+export const startingTiles: Record<string, FieldElement[]> = {
+  h2h: [RED_STARTING_TILES, BLUE_STARTING_TILES],
+  skills: [RED_STARTING_TILES],
+}
+
+export const fieldFeatures: Record<string, FieldFeature[]> = {
+  h2h: PUSH_BACK_FEATURES,
+  skills: PUSH_BACK_FEATURES,
+}
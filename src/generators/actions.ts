@@ -0,0 +1,96 @@
+import type { CodeLine, FieldPosition, PistonState, Point, WaypointAction } from '../types'
+
+// How a code target writes each kind of action, custom code is copied as is
+export interface ActionSyntax {
+  motor: (target: string, velocity: number) => string;
+  pneumatic: (target: string, state: PistonState) => string;
+  wait: (duration: number) => string;
+}
+
+// A straight piece of a move, cut where distance actions fire
+export interface DrivePiece {
+  start: FieldPosition;
+  end: FieldPosition;
+  length: number; // in
+  fraction: number; // share of the waypoint leg this piece covers, for splitting timeouts
+  actions: WaypointAction[]; // run once the robot reaches `end`
+}
+
+export const pushActions = (lines: CodeLine[], actions: WaypointAction[], syntax: ActionSyntax, pointIndex: number) => {
+  actions.forEach(action => {
+    switch (action.kind) {
+      case 'motor':
+        lines.push({ line: syntax.motor(action.target, action.velocity), pointIndex })
+        break
+      case 'pneumatic':
+        lines.push({ line: syntax.pneumatic(action.target, action.state), pointIndex })
+        break
+      case 'wait':
+        lines.push({ line: syntax.wait(action.duration), pointIndex })
+        break
+      case 'custom':
+        action.code.split('\n').filter(line => line.trim()).forEach(line => lines.push({ line, pointIndex }))
+        break
+    }
+  })
+}
+
+// A point's actions by when they run, distance actions in the order the robot reaches them
+export const groupActions = (point: Point) => ({
+  before: point.actions.filter(a => a.timing === 'before'),
+  atDistance: point.actions.filter(a => a.timing === 'distance').sort((a, b) => a.distance - b.distance),
+  after: point.actions.filter(a => a.timing === 'after'),
+})
+
+// Distance actions that fire at the same distance, for targets that can wait on the drive mid-move
+export const groupByDistance = (atDistance: WaypointAction[]) => {
+  const stops: { distance: number; actions: WaypointAction[] }[] = []
+  atDistance.forEach(action => {
+    const last = stops[stops.length - 1]
+    if (last && last.distance === action.distance) {
+      last.actions.push(action)
+    } else {
+      stops.push({ distance: action.distance, actions: [action] })
+    }
+  })
+  return stops
+}
+
+// Break the straight legs through `waypoints` where distance actions fire, for targets whose moves
+// block until they finish. Distances past the end of the segment fire when it is reached
+export const splitAtActions = (from: FieldPosition, waypoints: FieldPosition[], atDistance: WaypointAction[]): DrivePiece[] => {
+  const pieces: DrivePiece[] = []
+  let start = from
+  let travelled = 0
+  let next = 0
+  waypoints.forEach((end, leg) => {
+    const length = Math.hypot(end.fieldX - start.fieldX, end.fieldY - start.fieldY)
+    const at = (d: number): FieldPosition => {
+      const t = length > 0 ? d / length : 1
+      return { fieldX: start.fieldX + (end.fieldX - start.fieldX) * t, fieldY: start.fieldY + (end.fieldY - start.fieldY) * t }
+    }
+    let cutDistance = 0
+    let cutPosition = start
+    let legPieces = 0
+    while (next < atDistance.length && (atDistance[next].distance <= travelled + length || leg === waypoints.length - 1)) {
+      const d = Math.max(0, Math.min(atDistance[next].distance - travelled, length))
+      const previous = pieces[pieces.length - 1]
+      if (d - cutDistance < 1e-6 && previous) {
+        previous.actions.push(atDistance[next])
+      } else {
+        const position = at(d)
+        pieces.push({ start: cutPosition, end: position, length: d - cutDistance, fraction: length > 0 ? (d - cutDistance) / length : 1, actions: [atDistance[next]] })
+        cutDistance = d
+        cutPosition = position
+        legPieces++
+      }
+      next++
+    }
+    if (length - cutDistance > 1e-6 || legPieces === 0) {
+      pieces.push({ start: cutPosition, end, length: length - cutDistance, fraction: length > 0 ? (length - cutDistance) / length : 1, actions: [] })
+    }
+    travelled += length
+    start = end
+  })
+  return pieces
+}
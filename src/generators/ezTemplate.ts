@@ -0,0 +1,60 @@
+import type { CodeGenerator, CodeLine } from '../types'
+import { round1 } from '../geometry'
+import { BEZIER_WAYPOINTS, facingHeading, getEffectiveTheta, getSegmentStartHeading, getSegmentWaypoints } from '../path'
+import { type ActionSyntax, groupActions, groupByDistance, pushActions } from './actions'
+
+// Motor groups are pros::MotorGroup, pistons are ez::Piston
+const ezTemplateActions: ActionSyntax = {
+  motor: (target, velocity) => `${target}.move(${velocity});`,
+  pneumatic: (target, state) => state === 'toggle' ? `${target}.set(!${target}.get());` : `${target}.set(${state === 'extend'});`,
+  wait: (duration) => `pros::delay(${duration});`,
+}
+
+// PROS + EZ-Template (v3 odometry API, uses okapi-style unit literals)
+export const ezTemplateGenerator: CodeGenerator = {
+  id: 'ez-template',
+  label: 'PROS EZ-Template',
+  defaultChassis: 'chassis',
+  generate: (points, chassis) => {
+    const lines: CodeLine[] = []
+    points.forEach((point, index) => {
+      const x = round1(point.fieldX)
+      const y = round1(point.fieldY)
+      if (index === 0) {
+        const theta = round1(getEffectiveTheta(points, 0))
+        lines.push({ line: `${chassis}.odom_xyt_set(${x}_in, ${y}_in, ${theta}_deg);`, pointIndex: index })
+        pushActions(lines, point.actions, ezTemplateActions, index)
+        return
+      }
+      const prev = points[index - 1]
+      const direction = point.forwards ? 'fwd' : 'rev'
+      const { before, atDistance, after } = groupActions(point)
+      lines.push({ line: '\n', pointIndex: null })
+      pushActions(lines, before, ezTemplateActions, index)
+      if (point.motion === 'pose') {
+        // A target with a heading makes EZ-Template drive a boomerang curve
+        lines.push({ line: `${chassis}.pid_odom_set({{${x}_in, ${y}_in, ${round1(point.theta)}_deg}, ${direction}, ${point.speed}}, true);`, pointIndex: index })
+      } else if (point.motion === 'bezier') {
+        // Face along the curve, then follow the waypoints on it as one injected path
+        const heading = round1(facingHeading(getSegmentStartHeading(prev, point), point.forwards))
+        lines.push({ line: `${chassis}.pid_turn_set(${heading}_deg, ${point.speed});`, pointIndex: index })
+        lines.push({ line: `${chassis}.pid_wait();`, pointIndex: index })
+        const targets = getSegmentWaypoints(prev, point, BEZIER_WAYPOINTS)
+          .map(wp => `{{${round1(wp.fieldX)}_in, ${round1(wp.fieldY)}_in}, ${direction}, ${point.speed}}`)
+        lines.push({ line: `${chassis}.pid_odom_set({${targets.join(', ')}}, true);`, pointIndex: index })
+      } else {
+        lines.push({ line: `${chassis}.pid_turn_set({${x}_in, ${y}_in}, ${direction}, ${point.speed});`, pointIndex: index })
+        lines.push({ line: `${chassis}.pid_wait();`, pointIndex: index })
+        lines.push({ line: `${chassis}.pid_odom_set({{${x}_in, ${y}_in}, ${direction}, ${point.speed}}, true);`, pointIndex: index })
+      }
+      // pid_wait_until holds until the robot has driven that far into the motion
+      groupByDistance(atDistance).forEach(stop => {
+        lines.push({ line: `${chassis}.pid_wait_until(${round1(stop.distance)}_in);`, pointIndex: index })
+        pushActions(lines, stop.actions, ezTemplateActions, index)
+      })
+      lines.push({ line: `${chassis}.pid_wait();`, pointIndex: index })
+      pushActions(lines, after, ezTemplateActions, index)
+    })
+    return lines
+  }
+}
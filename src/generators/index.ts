@@ -0,0 +1,18 @@
+import type { CodeGenerator } from '../types'
+import { lemlibGenerator } from './lemlib'
+import { ezTemplateGenerator } from './ezTemplate'
+import { jarTemplateGenerator } from './jarTemplate'
+import { vexcodeCppGenerator, vexcodePythonGenerator } from './vexcode'
+
+// Built-in code targets, in the order they appear in the Configuration dropdown
+export const codeGenerators: CodeGenerator[] = [
+  lemlibGenerator,
+  ezTemplateGenerator,
+  jarTemplateGenerator,
+  vexcodeCppGenerator,
+  vexcodePythonGenerator,
+]
+
+export const getCodeGenerator = (id: string): CodeGenerator => {
+  return codeGenerators.find(g => g.id === id) ?? lemlibGenerator
+}
@@ -0,0 +1,65 @@
+import type { CodeGenerator, CodeLine, FieldPosition } from '../types'
+import { round1 } from '../geometry'
+import { BEZIER_WAYPOINTS, facingHeading, getEffectiveTheta, getSegmentStartHeading, getSegmentWaypoints } from '../path'
+import { groupActions, pushActions, splitAtActions } from './actions'
+import { vexcodeCppActions } from './vexcode'
+
+// JAR-Template defaults for the heading correction voltage and settle conditions of drive_to_point
+const HEADING_MAX_VOLTAGE = 6
+const DRIVE_SETTLE_ERROR = 1.5
+const DRIVE_SETTLE_TIME = 300
+
+// JAR-Template drives with voltages (0-12V) instead of the 1-127 speed scale
+const toVolts = (speed: number) => round1((speed / 127) * 12)
+
+// VEXcode C++ + JAR-Template
+export const jarTemplateGenerator: CodeGenerator = {
+  id: 'jar-template',
+  label: 'VEXcode JAR-Template',
+  defaultChassis: 'chassis',
+  generate: (points, chassis) => {
+    const lines: CodeLine[] = []
+    points.forEach((point, index) => {
+      const x = round1(point.fieldX)
+      const y = round1(point.fieldY)
+      if (index === 0) {
+        const theta = round1(getEffectiveTheta(points, 0))
+        lines.push({ line: `${chassis}.set_coordinates(${x}, ${y}, ${theta});`, pointIndex: index })
+        pushActions(lines, point.actions, vexcodeCppActions, index)
+        return
+      }
+      const prev = points[index - 1]
+      const volts = toVolts(point.speed)
+      const { before, atDistance, after } = groupActions(point)
+      // JAR-Template motions block, so straight drives are cut where distance actions fire
+      const pushDrives = (waypoints: FieldPosition[]) => {
+        splitAtActions(prev, waypoints, atDistance).forEach(piece => {
+          if (piece.length > 0) {
+            const timeout = Math.round((point.timeout / waypoints.length) * piece.fraction)
+            lines.push({ line: `${chassis}.drive_to_point(${round1(piece.end.fieldX)}, ${round1(piece.end.fieldY)}, ${volts}, ${HEADING_MAX_VOLTAGE}, ${DRIVE_SETTLE_ERROR}, ${DRIVE_SETTLE_TIME}, ${timeout});`, pointIndex: index })
+          }
+          pushActions(lines, piece.actions, vexcodeCppActions, index)
+        })
+      }
+      lines.push({ line: '\n', pointIndex: null })
+      pushActions(lines, before, vexcodeCppActions, index)
+      if (point.motion === 'pose') {
+        // drive_to_pose takes the heading the robot faces at the end, so a backwards pose needs no special casing
+        lines.push({ line: `${chassis}.drive_to_pose(${x}, ${y}, ${round1(point.theta)}, ${point.lead}, 0, 0, ${volts}, ${HEADING_MAX_VOLTAGE}, ${DRIVE_SETTLE_ERROR}, ${DRIVE_SETTLE_TIME}, ${point.timeout});`, pointIndex: index })
+        // The curve can't be cut, so its distance actions run once it finishes
+        pushActions(lines, atDistance, vexcodeCppActions, index)
+      } else if (point.motion === 'bezier') {
+        // Face along the curve, then drive through waypoints on it
+        const heading = round1(facingHeading(getSegmentStartHeading(prev, point), point.forwards))
+        lines.push({ line: `${chassis}.turn_to_angle(${heading}, ${volts});`, pointIndex: index })
+        pushDrives(getSegmentWaypoints(prev, point, BEZIER_WAYPOINTS))
+      } else {
+        // extra_angle_deg of 180 faces the back of the robot toward the target
+        lines.push({ line: `${chassis}.turn_to_point(${x}, ${y}, ${point.forwards ? 0 : 180}, ${volts});`, pointIndex: index })
+        pushDrives([point])
+      }
+      pushActions(lines, after, vexcodeCppActions, index)
+    })
+    return lines
+  }
+}
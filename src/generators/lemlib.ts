@@ -0,0 +1,71 @@
+import type { CodeGenerator, CodeLine } from '../types'
+import { round1 } from '../geometry'
+import { BEZIER_WAYPOINTS, facingHeading, getEffectiveTheta, getSegmentStartHeading, getSegmentWaypoints } from '../path'
+import { type ActionSyntax, groupActions, groupByDistance, pushActions, splitAtActions } from './actions'
+
+// Exit range (in) for the intermediate moves of a chained bezier segment
+const CHAIN_EXIT_RANGE = 4
+
+// Motor groups are pros::MotorGroup, pistons are pros::adi::Pneumatics
+const lemlibActions: ActionSyntax = {
+  motor: (target, velocity) => `${target}.move(${velocity});`,
+  pneumatic: (target, state) => `${target}.${state}();`,
+  wait: (duration) => `pros::delay(${duration});`,
+}
+
+// PROS + LemLib
+export const lemlibGenerator: CodeGenerator = {
+  id: 'lemlib',
+  label: 'PROS LemLib',
+  defaultChassis: 'chassis',
+  generate: (points, chassis) => {
+    const lines: CodeLine[] = []
+    points.forEach((point, index) => {
+      const x = round1(point.fieldX)
+      const y = round1(point.fieldY)
+      if (index === 0) {
+        const theta = round1(getEffectiveTheta(points, 0))
+        lines.push({ line: `${chassis}.setPose(${x}, ${y}, ${theta});`, pointIndex: index })
+        pushActions(lines, point.actions, lemlibActions, index)
+        return
+      }
+      const prev = points[index - 1]
+      const { before, atDistance, after } = groupActions(point)
+      // Motions run asynchronously when actions have to fire partway, waitUntil blocks until the robot has driven far enough
+      const pushMotion = (call: string) => {
+        const stops = groupByDistance(atDistance)
+        lines.push({ line: `${call}, ${stops.length > 0});`, pointIndex: index })
+        stops.forEach(stop => {
+          lines.push({ line: `${chassis}.waitUntil(${round1(stop.distance)});`, pointIndex: index })
+          pushActions(lines, stop.actions, lemlibActions, index)
+        })
+        if (stops.length > 0) lines.push({ line: `${chassis}.waitUntilDone();`, pointIndex: index })
+      }
+      lines.push({ line: '\n', pointIndex: null })
+      pushActions(lines, before, lemlibActions, index)
+      if (point.motion === 'pose') {
+        pushMotion(`${chassis}.moveToPose(${x}, ${y}, ${round1(point.theta)}, ${point.timeout}, {.forwards=${point.forwards}, .lead=${point.lead}, .maxSpeed=${point.speed}}`)
+      } else if (point.motion === 'bezier') {
+        // Face along the curve, then chain moveToPoint calls through waypoints on it
+        // Distance actions cut the chain where they fire instead of waiting on it
+        const heading = round1(facingHeading(getSegmentStartHeading(prev, point), point.forwards))
+        lines.push({ line: `${chassis}.turnToHeading(${heading}, 500, {.maxSpeed=${point.speed}}, false);`, pointIndex: index })
+        const waypoints = getSegmentWaypoints(prev, point, BEZIER_WAYPOINTS)
+        const pieces = splitAtActions(prev, waypoints, atDistance)
+        pieces.forEach((piece, k) => {
+          if (piece.length > 0) {
+            const timeout = Math.round((point.timeout / waypoints.length) * piece.fraction)
+            const chain = k < pieces.length - 1 ? `, .minSpeed=${Math.round(point.speed / 2)}, .earlyExitRange=${CHAIN_EXIT_RANGE}` : ''
+            lines.push({ line: `${chassis}.moveToPoint(${round1(piece.end.fieldX)}, ${round1(piece.end.fieldY)}, ${timeout}, {.forwards=${point.forwards}, .maxSpeed=${point.speed}${chain}}, false);`, pointIndex: index })
+          }
+          pushActions(lines, piece.actions, lemlibActions, index)
+        })
+      } else {
+        lines.push({ line: `${chassis}.turnToPoint(${x}, ${y}, 500, {.forwards=${point.forwards}, .maxSpeed=${point.speed}}, false);`, pointIndex: index })
+        pushMotion(`${chassis}.moveToPoint(${x}, ${y}, ${point.timeout}, {.forwards=${point.forwards}, .maxSpeed=${point.speed}}`)
+      }
+      pushActions(lines, after, lemlibActions, index)
+    })
+    return lines
+  }
+}
@@ -0,0 +1,114 @@
+import type { CodeGenerator, CodeLine, Point, WaypointAction } from '../types'
+import { headingBetween, round1 } from '../geometry'
+import { BEZIER_WAYPOINTS, facingHeading, getEffectiveTheta, getSegmentWaypoints } from '../path'
+import { type ActionSyntax, groupActions, pushActions, splitAtActions } from './actions'
+
+// Stock VEXcode drivetrains have no odometry, so each move is emitted as
+// turn-to-heading + drive-for-distance relative to the previous position.
+// Curves are broken into straight moves between waypoints on the curve.
+interface RelativeMove {
+  heading: number; // heading the robot faces while driving
+  distance: number; // inches
+  timeout: number; // milliseconds
+  actions: WaypointAction[]; // run once the move finishes
+}
+
+// Moves are cut where distance actions fire, since driveFor blocks until it arrives
+const toRelativeMoves = (from: Point, to: Point, atDistance: WaypointAction[]): RelativeMove[] => {
+  const waypoints = to.motion === 'point' ? [to] : getSegmentWaypoints(from, to, BEZIER_WAYPOINTS)
+  return splitAtActions(from, waypoints, atDistance).map(piece => ({
+    heading: round1(facingHeading(headingBetween(piece.start.fieldX, piece.start.fieldY, piece.end.fieldX, piece.end.fieldY), to.forwards)),
+    distance: round1(piece.length),
+    timeout: Math.round((to.timeout / waypoints.length) * piece.fraction),
+    actions: piece.actions,
+  }))
+}
+
+const toPercent = (speed: number) => Math.round((speed / 127) * 100)
+
+// Motor groups are motor_group, pistons are digital_out
+export const vexcodeCppActions: ActionSyntax = {
+  motor: (target, velocity) => velocity === 0 ? `${target}.stop();` : `${target}.spin(forward, ${toPercent(velocity)}, percent);`,
+  pneumatic: (target, state) => state === 'toggle' ? `${target}.set(!${target}.value());` : `${target}.set(${state === 'extend'});`,
+  wait: (duration) => `wait(${duration}, msec);`,
+}
+
+const vexcodePythonActions: ActionSyntax = {
+  motor: (target, velocity) => velocity === 0 ? `${target}.stop()` : `${target}.spin(FORWARD, ${toPercent(velocity)}, PERCENT)`,
+  pneumatic: (target, state) => state === 'toggle' ? `${target}.set(not ${target}.value())` : `${target}.set(${state === 'extend' ? 'True' : 'False'})`,
+  wait: (duration) => `wait(${duration}, MSEC)`,
+}
+
+// VEXcode V5 C++
+export const vexcodeCppGenerator: CodeGenerator = {
+  id: 'vexcode-cpp',
+  label: 'VEXcode C++',
+  defaultChassis: 'Drivetrain',
+  generate: (points, chassis) => {
+    const lines: CodeLine[] = []
+    points.forEach((point, index) => {
+      if (index === 0) {
+        const theta = round1(getEffectiveTheta(points, 0))
+        lines.push({ line: `${chassis}.setHeading(${theta}, degrees);`, pointIndex: index })
+        pushActions(lines, point.actions, vexcodeCppActions, index)
+        return
+      }
+      const percent = toPercent(point.speed)
+      const { before, atDistance, after } = groupActions(point)
+      lines.push({ line: '\n', pointIndex: null })
+      pushActions(lines, before, vexcodeCppActions, index)
+      lines.push({ line: `${chassis}.setDriveVelocity(${percent}, percent);`, pointIndex: index })
+      lines.push({ line: `${chassis}.setTurnVelocity(${percent}, percent);`, pointIndex: index })
+      toRelativeMoves(points[index - 1], point, atDistance).forEach(move => {
+        if (move.distance > 0) {
+          lines.push({ line: `${chassis}.turnToHeading(${move.heading}, degrees);`, pointIndex: index })
+          lines.push({ line: `${chassis}.setTimeout(${move.timeout}, msec);`, pointIndex: index })
+          lines.push({ line: `${chassis}.driveFor(${point.forwards ? 'forward' : 'reverse'}, ${move.distance}, inches);`, pointIndex: index })
+        }
+        pushActions(lines, move.actions, vexcodeCppActions, index)
+      })
+      if (point.motion === 'pose') {
+        lines.push({ line: `${chassis}.turnToHeading(${round1(point.theta)}, degrees);`, pointIndex: index })
+      }
+      pushActions(lines, after, vexcodeCppActions, index)
+    })
+    return lines
+  }
+}
+
+// VEXcode V5 Python
+export const vexcodePythonGenerator: CodeGenerator = {
+  id: 'vexcode-python',
+  label: 'VEXcode Python',
+  defaultChassis: 'drivetrain',
+  generate: (points, chassis) => {
+    const lines: CodeLine[] = []
+    points.forEach((point, index) => {
+      if (index === 0) {
+        const theta = round1(getEffectiveTheta(points, 0))
+        lines.push({ line: `${chassis}.set_heading(${theta}, DEGREES)`, pointIndex: index })
+        pushActions(lines, point.actions, vexcodePythonActions, index)
+        return
+      }
+      const percent = toPercent(point.speed)
+      const { before, atDistance, after } = groupActions(point)
+      lines.push({ line: '\n', pointIndex: null })
+      pushActions(lines, before, vexcodePythonActions, index)
+      lines.push({ line: `${chassis}.set_drive_velocity(${percent}, PERCENT)`, pointIndex: index })
+      lines.push({ line: `${chassis}.set_turn_velocity(${percent}, PERCENT)`, pointIndex: index })
+      toRelativeMoves(points[index - 1], point, atDistance).forEach(move => {
+        if (move.distance > 0) {
+          lines.push({ line: `${chassis}.turn_to_heading(${move.heading}, DEGREES)`, pointIndex: index })
+          lines.push({ line: `${chassis}.set_timeout(${move.timeout}, MSEC)`, pointIndex: index })
+          lines.push({ line: `${chassis}.drive_for(${point.forwards ? 'FORWARD' : 'REVERSE'}, ${move.distance}, INCHES)`, pointIndex: index })
+        }
+        pushActions(lines, move.actions, vexcodePythonActions, index)
+      })
+      if (point.motion === 'pose') {
+        lines.push({ line: `${chassis}.turn_to_heading(${round1(point.theta)}, DEGREES)`, pointIndex: index })
+      }
+      pushActions(lines, after, vexcodePythonActions, index)
+    })
+    return lines
+  }
+}
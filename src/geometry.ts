@@ -0,0 +1,206 @@
+import type { FieldCalibration, PixelPosition } from './types'
+
+// The bundled field renders are 2000x2000 pixels, but field area is 1932x1932 pixels (wall padding of 34px on each side)
+// Other images get their own calibration
+export const FIELD_IMAGE_SIZE = 2000
+const FIELD_WALL_PADDING = 34
+const FIELD_INCH_SIZE = 144
+export const FIELD_HALF_INCHES = FIELD_INCH_SIZE / 2
+
+export const DEFAULT_CALIBRATION: FieldCalibration = {
+  width: FIELD_IMAGE_SIZE,
+  height: FIELD_IMAGE_SIZE,
+  corners: [
+    { x: FIELD_WALL_PADDING, y: FIELD_WALL_PADDING },
+    { x: FIELD_IMAGE_SIZE - FIELD_WALL_PADDING, y: FIELD_WALL_PADDING },
+    { x: FIELD_IMAGE_SIZE - FIELD_WALL_PADDING, y: FIELD_IMAGE_SIZE - FIELD_WALL_PADDING },
+    { x: FIELD_WALL_PADDING, y: FIELD_IMAGE_SIZE - FIELD_WALL_PADDING },
+  ],
+}
+
+// Field corners in field coordinates, in the same order as FieldCalibration.corners
+const FIELD_CORNERS = [
+  { fieldX: -FIELD_HALF_INCHES, fieldY: FIELD_HALF_INCHES },
+  { fieldX: FIELD_HALF_INCHES, fieldY: FIELD_HALF_INCHES },
+  { fieldX: FIELD_HALF_INCHES, fieldY: -FIELD_HALF_INCHES },
+  { fieldX: -FIELD_HALF_INCHES, fieldY: -FIELD_HALF_INCHES },
+]
+
+// Calibration of a straight top-down image from its top left and bottom right corners
+export const cornersFromDiagonal = (topLeft: PixelPosition, bottomRight: PixelPosition): FieldCalibration['corners'] => [
+  topLeft,
+  { x: bottomRight.x, y: topLeft.y },
+  bottomRight,
+  { x: topLeft.x, y: bottomRight.y },
+]
+
+// Calibration corners from the clicks made so far, null until every corner is placed
+export const cornersFromClicks = (clicks: PixelPosition[], cornerCount: 2 | 4): FieldCalibration['corners'] | null => {
+  if (clicks.length < cornerCount) return null
+  return cornerCount === 2 ? cornersFromDiagonal(clicks[0], clicks[1]) : [clicks[0], clicks[1], clicks[2], clicks[3]]
+}
+
+type Matrix3 = [number, number, number, number, number, number, number, number, number]
+
+// Pivots smaller than this mean the system has no single solution
+const SINGULAR_PIVOT = 1e-9
+
+// Solve a square linear system by Gaussian elimination with partial pivoting, null when it is singular
+const solve = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length
+  const m = a.map((row, i) => [...row, b[i]])
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]]
+    if (Math.abs(m[col][col]) < SINGULAR_PIVOT) return null
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue
+      const factor = m[row][col] / m[col][col]
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k]
+    }
+  }
+  return m.map((row, i) => row[n] / row[i])
+}
+
+// Projective transform taking the field corners onto the calibrated image corners, null if the corners can't define one
+const getHomography = (corners: FieldCalibration['corners']): Matrix3 | null => {
+  const a: number[][] = []
+  const b: number[] = []
+  FIELD_CORNERS.forEach(({ fieldX: u, fieldY: v }, i) => {
+    const { x, y } = corners[i]
+    a.push([u, v, 1, 0, 0, 0, -u * x, -v * x])
+    b.push(x)
+    a.push([0, 0, 0, u, v, 1, -u * y, -v * y])
+    b.push(y)
+  })
+  const h = solve(a, b)
+  if (!h || !h.every(Number.isFinite)) return null
+  return [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1]
+}
+
+const invert = (m: Matrix3): Matrix3 | null => {
+  const [a, b, c, d, e, f, g, h, i] = m
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g)
+  if (!Number.isFinite(det) || Math.abs(det) < SINGULAR_PIVOT) return null
+  return [
+    (e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    (f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    (d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det,
+  ]
+}
+
+const apply = (m: Matrix3, x: number, y: number) => {
+  const w = m[6] * x + m[7] * y + m[8]
+  return { x: (m[0] * x + m[1] * y + m[2]) / w, y: (m[3] * x + m[4] * y + m[5]) / w }
+}
+
+// Transforms are worked out once per calibration
+const transforms = new WeakMap<FieldCalibration, { toPixel: Matrix3; toField: Matrix3 }>()
+
+const buildTransforms = (corners: FieldCalibration['corners']) => {
+  const toPixel = getHomography(corners)
+  const toField = toPixel && invert(toPixel)
+  return toPixel && toField ? { toPixel, toField } : null
+}
+
+// A calibration that can't be used (only possible from old saved fields) falls back to the bundled image's
+const getTransforms = (calibration: FieldCalibration) => {
+  let cached = transforms.get(calibration)
+  if (!cached) {
+    cached = buildTransforms(calibration.corners) ?? buildTransforms(DEFAULT_CALIBRATION.corners)!
+    transforms.set(calibration, cached)
+  }
+  return cached
+}
+
+// Corners closer than this (image px) or bending less than this (sine of the angle) are treated as misclicks
+const MIN_CORNER_DISTANCE = 10
+const MIN_CORNER_SINE = 0.05
+
+// Why clicked corners can't calibrate a field, or null if they can
+// They must be distinct and go round a convex shape with no three of them on (or nearly on) a line
+export const getCalibrationProblem = (corners: FieldCalibration['corners']): string | null => {
+  for (let i = 0; i < corners.length; i++) {
+    for (let j = i + 1; j < corners.length; j++) {
+      if (Math.hypot(corners[j].x - corners[i].x, corners[j].y - corners[i].y) < MIN_CORNER_DISTANCE) {
+        return 'Two corners are on the same spot.'
+      }
+    }
+  }
+  let turn = 0
+  for (let i = 0; i < corners.length; i++) {
+    const [a, b, c] = [corners[i], corners[(i + 1) % corners.length], corners[(i + 2) % corners.length]]
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x)
+    const sine = cross / (Math.hypot(b.x - a.x, b.y - a.y) * Math.hypot(c.x - b.x, c.y - b.y))
+    if (Math.abs(sine) < MIN_CORNER_SINE) return 'Three corners are on a line.'
+    if (turn !== 0 && Math.sign(sine) !== turn) return 'The corners cross over, click them in order around the field.'
+    turn = Math.sign(sine)
+  }
+  if (!buildTransforms(corners)) return 'The corners do not make a usable field.'
+  return null
+}
+
+// Convert pixel coordinates to field coordinates (144x144 inch field, centered at 0,0)
+// Image Y increases downward while field Y increases upward, the calibration corners take care of the flip
+export const pixelToField = (pixelX: number, pixelY: number, calibration = DEFAULT_CALIBRATION) => {
+  const { x, y } = apply(getTransforms(calibration).toField, pixelX, pixelY)
+  return { fieldX: x, fieldY: y }
+}
+
+// Convert field coordinates back to pixel coordinates
+export const fieldToPixel = (fieldX: number, fieldY: number, calibration = DEFAULT_CALIBRATION) => {
+  return apply(getTransforms(calibration).toPixel, fieldX, fieldY)
+}
+
+// Average image scale across the field, for sizing things drawn in inches
+export const getPixelsPerInch = (calibration = DEFAULT_CALIBRATION) => {
+  const [topLeft, topRight, bottomRight, bottomLeft] = calibration.corners
+  const top = Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y)
+  const bottom = Math.hypot(bottomRight.x - bottomLeft.x, bottomRight.y - bottomLeft.y)
+  const left = Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y)
+  const right = Math.hypot(bottomRight.x - topRight.x, bottomRight.y - topRight.y)
+  return (top + bottom + left + right) / 4 / FIELD_INCH_SIZE
+}
+
+// Round to one decimal place, the precision used everywhere in the UI and code output
+export const round1 = (value: number) => Math.round(value * 10) / 10
+
+// Normalize an angle in degrees to 0-360
+export const normalizeDegrees = (degrees: number) => {
+  let d = degrees % 360
+  if (d < 0) d += 360
+  return d
+}
+
+// Heading in degrees from one field position to another
+// 0 = up (+Y), 90 = right (+X), 180 = down, 270 = left
+export const headingBetween = (fromX: number, fromY: number, toX: number, toY: number) => {
+  return normalizeDegrees((Math.atan2(toX - fromX, toY - fromY) * 180) / Math.PI)
+}
+
+// Signed shortest rotation in degrees from one heading to another (-180 to 180)
+export const angleDifference = (from: number, to: number) => {
+  return normalizeDegrees(to - from + 180) - 180
+}
+
+// Field tiles are 24 inch foam squares
+export const TILE_INCHES = 24
+
+export interface Measurement {
+  distance: number; // in
+  tiles: number;
+  dx: number; // in
+  dy: number; // in
+  heading: number; // degrees, same convention as headingBetween
+}
+
+// Ruler reading from one field position to another
+export const measureBetween = (fromX: number, fromY: number, toX: number, toY: number): Measurement => {
+  const dx = toX - fromX
+  const dy = toY - fromY
+  const distance = Math.hypot(dx, dy)
+  return { distance, tiles: distance / TILE_INCHES, dx, dy, heading: headingBetween(fromX, fromY, toX, toY) }
+}
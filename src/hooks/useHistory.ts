@@ -0,0 +1,70 @@
+import { useCallback, useRef, useState } from 'react'
+
+// Maximum number of undo steps kept in memory
+const HISTORY_LIMIT = 200
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+// State with undo/redo. Every set() is one undoable step, except inside a gesture
+// (beginGesture() ... endGesture()) where all sets collapse into a single step
+export function useHistory<T>(initial: T) {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [] })
+  // 'idle': no gesture, 'pending': gesture started but nothing changed yet, 'recorded': gesture already has its step
+  const gestureRef = useRef<'idle' | 'pending' | 'recorded'>('idle')
+
+  const set = useCallback((value: T) => {
+    const gesture = gestureRef.current
+    if (gesture === 'pending') gestureRef.current = 'recorded'
+    setHistory(h => {
+      if (Object.is(value, h.present)) return h
+      if (gesture === 'recorded') {
+        return { ...h, present: value }
+      }
+      return { past: [...h.past, h.present].slice(-HISTORY_LIMIT), present: value, future: [] }
+    })
+  }, [])
+
+  // Replace the whole history, e.g. when switching to a different route
+  const reset = useCallback((value: T) => {
+    gestureRef.current = 'idle'
+    setHistory({ past: [], present: value, future: [] })
+  }, [])
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h
+      return { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] }
+    })
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h
+      return { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) }
+    })
+  }, [])
+
+  const beginGesture = useCallback(() => {
+    gestureRef.current = 'pending'
+  }, [])
+
+  const endGesture = useCallback(() => {
+    gestureRef.current = 'idle'
+  }, [])
+
+  return {
+    present: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    beginGesture,
+    endGesture,
+  }
+}
@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from 'react'
+import type { LivePose, LiveStatus } from '../types'
+import { parsePoseMessage } from '../telemetry'
+
+// Connection to a WebSocket bridge that forwards the robot's terminal output (see scripts/pose-bridge.mjs)
+// Poses can arrive far faster than the screen refreshes, so the latest one is shown once per frame
+export function useLivePose() {
+  const socketRef = useRef<WebSocket | null>(null)
+  const latestRef = useRef<LivePose | null>(null)
+  const frameRef = useRef<number | null>(null)
+  const [status, setStatus] = useState<LiveStatus>('disconnected')
+  const [pose, setPose] = useState<LivePose | null>(null)
+
+  // Forget the socket first, so its close event doesn't change the status
+  const closeSocket = () => {
+    const socket = socketRef.current
+    socketRef.current = null
+    socket?.close()
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    frameRef.current = null
+  }
+
+  const disconnect = () => {
+    closeSocket()
+    setStatus('disconnected')
+    setPose(null)
+  }
+
+  const connect = (url: string) => {
+    closeSocket()
+    setPose(null)
+    let socket: WebSocket
+    try {
+      socket = new WebSocket(url)
+    } catch (err) {
+      console.warn('Failed to connect to the robot', err)
+      setStatus('error')
+      return
+    }
+    socketRef.current = socket
+    setStatus('connecting')
+    socket.onopen = () => {
+      if (socketRef.current === socket) setStatus('connected')
+    }
+    socket.onerror = () => {
+      if (socketRef.current === socket) setStatus('error')
+    }
+    socket.onclose = () => {
+      if (socketRef.current !== socket) return
+      socketRef.current = null
+      setStatus(s => s === 'error' ? s : 'disconnected')
+    }
+    socket.onmessage = (e) => {
+      if (socketRef.current !== socket || typeof e.data !== 'string') return
+      const received = parsePoseMessage(e.data)
+      if (!received) return
+      latestRef.current = received
+      if (frameRef.current === null) {
+        frameRef.current = requestAnimationFrame(() => {
+          frameRef.current = null
+          setPose(latestRef.current)
+        })
+      }
+    }
+  }
+
+  // Close the connection when the app goes away
+  useEffect(() => {
+    return () => {
+      socketRef.current?.close()
+      socketRef.current = null
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    }
+  }, [])
+
+  return { status, pose, connect, disconnect }
+}
@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react'
+import type { RefObject } from 'react'
+
+// How far in and out the view can zoom, relative to fitting the whole field
+const MIN_ZOOM = 0.5
+const MAX_ZOOM = 12
+
+export interface View {
+  scale: number; // CSS pixels per content pixel
+  offsetX: number; // CSS position of the content origin
+  offsetY: number;
+}
+
+interface CanvasSize {
+  width: number; // CSS pixels
+  height: number;
+  pixelRatio: number; // device pixels per CSS pixel
+}
+
+// Zoom change per pixel of wheel scroll
+const WHEEL_ZOOM_SPEED = 0.0015
+
+// Two touches on the screen, in client coordinates
+type Pinch = [{ x: number; y: number }, { x: number; y: number }]
+
+// Whole content centered in the canvas
+const getFitView = (size: CanvasSize, contentWidth: number, contentHeight: number): View => {
+  const scale = contentWidth > 0 && contentHeight > 0 ? Math.min(size.width / contentWidth, size.height / contentHeight) : 1
+  return {
+    scale,
+    offsetX: (size.width - contentWidth * scale) / 2,
+    offsetY: (size.height - contentHeight * scale) / 2,
+  }
+}
+
+const zoomView = (from: View, fitView: View, x: number, y: number, factor: number): View => {
+  const scale = Math.min(Math.max(from.scale * factor, fitView.scale * MIN_ZOOM), fitView.scale * MAX_ZOOM)
+  const applied = scale / from.scale
+  return { scale, offsetX: x - (x - from.offsetX) * applied, offsetY: y - (y - from.offsetY) * applied }
+}
+
+// Zoom and pan for content (the field image) drawn into a canvas that fills its container
+// The view is null while it fits the field, so it keeps fitting as the canvas is resized
+export function useViewport(canvasRef: RefObject<HTMLCanvasElement | null>, contentWidth: number, contentHeight: number) {
+  const [size, setSize] = useState<CanvasSize>({ width: 0, height: 0, pixelRatio: 1 })
+  const [view, setView] = useState<View | null>(null)
+  const panRef = useRef<{ x: number; y: number; moved: boolean } | null>(null)
+  const pinchRef = useRef<Pinch | null>(null)
+  const [isPanning, setIsPanning] = useState(false)
+
+  // Track the canvas's CSS size and the screen's pixel density
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const observer = new ResizeObserver(() => {
+      const rect = canvas.getBoundingClientRect()
+      setSize({ width: rect.width, height: rect.height, pixelRatio: window.devicePixelRatio || 1 })
+    })
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [canvasRef])
+
+  const fitView = getFitView(size, contentWidth, contentHeight)
+  const current = view ?? fitView
+
+  // Zoom by a factor keeping the content under a canvas CSS position in place
+  const zoomAt = (x: number, y: number, factor: number) => {
+    setView(v => zoomView(v ?? fitView, fitView, x, y, factor))
+  }
+
+  // Wheel zoom around the mouse, the listener can't be passive since it stops the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const fitted = getFitView(size, contentWidth, contentHeight)
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const rect = canvas.getBoundingClientRect()
+      const x = e.clientX - rect.left
+      const y = e.clientY - rect.top
+      setView(v => zoomView(v ?? fitted, fitted, x, y, Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED)))
+    }
+    canvas.addEventListener('wheel', handleWheel, { passive: false })
+    return () => canvas.removeEventListener('wheel', handleWheel)
+  }, [canvasRef, size, contentWidth, contentHeight])
+
+  // Canvas CSS position to content coordinates
+  const toContent = (x: number, y: number) => ({
+    x: (x - current.offsetX) / current.scale,
+    y: (y - current.offsetY) / current.scale,
+  })
+
+  const fit = () => setView(null)
+
+  // Drag the view with the mouse, positions are client coordinates
+  const startPan = (x: number, y: number) => {
+    panRef.current = { x, y, moved: false }
+    setIsPanning(true)
+  }
+
+  const movePan = (x: number, y: number) => {
+    const pan = panRef.current
+    if (!pan) return false
+    const dx = x - pan.x
+    const dy = y - pan.y
+    panRef.current = { x, y, moved: pan.moved || dx !== 0 || dy !== 0 }
+    setView(v => {
+      const from = v ?? fitView
+      return { ...from, offsetX: from.offsetX + dx, offsetY: from.offsetY + dy }
+    })
+    return true
+  }
+
+  // Returns whether the view was actually dragged, so the click ending it can be ignored
+  const endPan = () => {
+    const moved = panRef.current?.moved ?? false
+    panRef.current = null
+    setIsPanning(false)
+    return moved
+  }
+
+  // Two finger zoom and pan, the content under the fingers follows them
+  const startPinch = (touches: Pinch) => {
+    panRef.current = null
+    setIsPanning(false)
+    pinchRef.current = touches
+  }
+
+  const movePinch = (touches: Pinch) => {
+    const pinch = pinchRef.current
+    const canvas = canvasRef.current
+    if (!pinch || !canvas) return false
+    const rect = canvas.getBoundingClientRect()
+    const from = { x: (pinch[0].x + pinch[1].x) / 2, y: (pinch[0].y + pinch[1].y) / 2 }
+    const to = { x: (touches[0].x + touches[1].x) / 2, y: (touches[0].y + touches[1].y) / 2 }
+    const fromSpread = Math.hypot(pinch[1].x - pinch[0].x, pinch[1].y - pinch[0].y)
+    const toSpread = Math.hypot(touches[1].x - touches[0].x, touches[1].y - touches[0].y)
+    const factor = fromSpread > 0 && toSpread > 0 ? toSpread / fromSpread : 1
+    pinchRef.current = touches
+    setView(v => {
+      const start = v ?? fitView
+      const panned = { ...start, offsetX: start.offsetX + to.x - from.x, offsetY: start.offsetY + to.y - from.y }
+      return zoomView(panned, fitView, to.x - rect.left, to.y - rect.top, factor)
+    })
+    return true
+  }
+
+  const endPinch = () => {
+    pinchRef.current = null
+  }
+
+  return {
+    view: current,
+    size,
+    zoom: fitView.scale > 0 ? current.scale / fitView.scale : 1,
+    isPanning,
+    toContent,
+    zoomAt,
+    fit,
+    startPan,
+    movePan,
+    endPan,
+    startPinch,
+    movePinch,
+    endPinch,
+  }
+}
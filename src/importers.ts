@@ -0,0 +1,178 @@
+import type { FieldPosition, ImportedPath, PathFilePoint, Point } from './types'
+import { fieldToPixel, headingBetween, round1 } from './geometry'
+import { DEFAULT_LEAD } from './path'
+import { DEFAULT_DRIVETRAIN, profileTime } from './simulation'
+
+// Marker path.jerryio puts before its project data at the end of exported path files
+const JERRYIO_DATA_MARKER = '#PATH.JERRYIO-DATA'
+
+// path.jerryio stores lengths in its unit of choice, the enum value is the size of one unit in mm
+const MM_PER_INCH = 25.4
+
+const DEFAULT_SPEED = 70
+
+interface JerryioControl {
+  x: number;
+  y: number;
+  heading?: number;
+}
+
+interface JerryioPath {
+  name?: string;
+  segments: { controls: JerryioControl[] }[];
+  pc?: { maxSpeed?: number };
+}
+
+interface JerryioProject {
+  gc?: { uol?: number };
+  paths: JerryioPath[];
+}
+
+const makePoint = (id: number, position: FieldPosition, fields: Partial<Point> = {}): Point => {
+  const { x, y } = fieldToPixel(position.fieldX, position.fieldY)
+  return {
+    x,
+    y,
+    fieldX: position.fieldX,
+    fieldY: position.fieldY,
+    id,
+    theta: 0,
+    timeout: 1000,
+    speed: DEFAULT_SPEED,
+    forwards: true,
+    motion: 'point',
+    lead: DEFAULT_LEAD,
+    actions: [],
+    ...fields,
+  }
+}
+
+const clampSpeed = (speed: number) => Math.min(127, Math.max(1, Math.round(speed)))
+
+// A timeout with some margin over the time the default drivetrain would need, rounded up to 100 ms
+const estimateTimeout = (distance: number, speed: number) => {
+  const seconds = profileTime(distance, DEFAULT_DRIVETRAIN.maxVelocity * (speed / 127), DEFAULT_DRIVETRAIN.acceleration)
+  return Math.max(500, Math.ceil(seconds * 1.5 * 10) * 100)
+}
+
+const pathLength = (points: FieldPosition[]) => {
+  let length = 0
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].fieldX - points[i - 1].fieldX, points[i].fieldY - points[i - 1].fieldY)
+  }
+  return length
+}
+
+// Find the path.jerryio project in a file, either a bare project or the data appended to an exported path file
+const findJerryioProject = (text: string): JerryioProject | null => {
+  const markerIndex = text.indexOf(JERRYIO_DATA_MARKER)
+  const json = markerIndex !== -1 ? text.slice(markerIndex + JERRYIO_DATA_MARKER.length) : text
+  try {
+    const project = JSON.parse(json.trim())
+    return project && Array.isArray(project.paths) ? project : null
+  } catch {
+    return null
+  }
+}
+
+export const isJerryioProject = (text: string) => findJerryioProject(text) !== null
+
+// Convert every path of a path.jerryio project. Cubic segments keep their handles as bezier motions,
+// so nothing is lost to down-sampling
+export const parseJerryioProject = (text: string): ImportedPath[] => {
+  const project = findJerryioProject(text)
+  if (!project) throw new Error('Not a path.jerryio project')
+
+  const scale = (project.gc?.uol ?? MM_PER_INCH) / MM_PER_INCH
+  const toField = (c: JerryioControl): FieldPosition => ({ fieldX: round1(c.x * scale), fieldY: round1(c.y * scale) })
+
+  return project.paths.map((path, pathIndex) => {
+    const speed = clampSpeed(path.pc?.maxSpeed ?? DEFAULT_SPEED)
+    const points: Point[] = []
+    path.segments.forEach(segment => {
+      const controls = segment.controls
+      if (controls.length < 2) return
+      const start = controls[0]
+      const end = controls[controls.length - 1]
+      if (points.length === 0) {
+        points.push(makePoint(0, toField(start), { theta: start.heading ?? 0, speed }))
+      }
+      const prev = points[points.length - 1]
+      const endPosition = toField(end)
+      const isCurve = controls.length === 4
+      const handles: Point['controls'] = isCurve ? [toField(controls[1]), toField(controls[2])] : undefined
+      const shape = isCurve ? [prev, handles![0], handles![1], endPosition] : [prev, endPosition]
+      points.push(makePoint(points.length, endPosition, {
+        theta: end.heading ?? headingBetween(prev.fieldX, prev.fieldY, endPosition.fieldX, endPosition.fieldY),
+        speed,
+        timeout: estimateTimeout(pathLength(shape), speed),
+        motion: isCurve ? 'bezier' : 'point',
+        controls: handles,
+      }))
+    })
+    return { name: path.name || `Path ${pathIndex + 1}`, points }
+  })
+}
+
+// Read the x, y, speed lines of a LemLib path file, up to the endData marker
+export const parseLemlibPath = (text: string): PathFilePoint[] => {
+  const samples: PathFilePoint[] = []
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim()
+    if (trimmed === 'endData') break
+    if (trimmed === '') continue
+    const values = trimmed.split(',').map(v => parseFloat(v))
+    if (values.length < 2 || values.some(v => isNaN(v))) continue
+    samples.push({ fieldX: values[0], fieldY: values[1], speed: values[2] ?? DEFAULT_SPEED })
+  }
+  if (samples.length < 2) throw new Error('No x, y, speed lines found')
+  return samples
+}
+
+// Ramer-Douglas-Peucker: indices of the samples to keep so no dropped sample is further than tolerance (in) from the result
+const simplifyIndices = (samples: FieldPosition[], tolerance: number): number[] => {
+  const keep = new Set<number>([0, samples.length - 1])
+  const stack: [number, number][] = [[0, samples.length - 1]]
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!
+    const a = samples[first]
+    const b = samples[last]
+    const dx = b.fieldX - a.fieldX
+    const dy = b.fieldY - a.fieldY
+    const length = Math.hypot(dx, dy)
+    let maxDistance = 0
+    let maxIndex = -1
+    for (let i = first + 1; i < last; i++) {
+      const p = samples[i]
+      const distance = length === 0
+        ? Math.hypot(p.fieldX - a.fieldX, p.fieldY - a.fieldY)
+        : Math.abs(dy * p.fieldX - dx * p.fieldY + b.fieldX * a.fieldY - b.fieldY * a.fieldX) / length
+      if (distance > maxDistance) {
+        maxDistance = distance
+        maxIndex = i
+      }
+    }
+    if (maxIndex !== -1 && maxDistance > tolerance) {
+      keep.add(maxIndex)
+      stack.push([first, maxIndex], [maxIndex, last])
+    }
+  }
+  return [...keep].sort((a, b) => a - b)
+}
+
+// Down-sample a dense path into editable waypoints, averaging the speed of the samples each segment replaces
+export const simplifyPathFile = (samples: PathFilePoint[], tolerance: number): Point[] => {
+  const indices = simplifyIndices(samples, tolerance)
+  return indices.map((sampleIndex, i) => {
+    const position = { fieldX: round1(samples[sampleIndex].fieldX), fieldY: round1(samples[sampleIndex].fieldY) }
+    if (i === 0) return makePoint(0, position, { speed: clampSpeed(samples[0].speed) })
+    const covered = samples.slice(indices[i - 1], sampleIndex + 1)
+    const speed = clampSpeed(covered.reduce((sum, s) => sum + s.speed, 0) / covered.length)
+    const prev = samples[indices[i - 1]]
+    return makePoint(i, position, {
+      theta: round1(headingBetween(prev.fieldX, prev.fieldY, position.fieldX, position.fieldY)),
+      speed,
+      timeout: estimateTimeout(pathLength(covered), speed),
+    })
+  })
+}
@@ -0,0 +1,96 @@
+import type { DrivetrainModel, Point, RobotProfile, RouteLintIssue } from './types'
+import type { PathSample } from './path'
+import { getEffectiveTheta } from './path'
+import { getElementCorners, getRobotCorners, rectanglesTouch } from './collision'
+import { FIELD_HALF_INCHES } from './geometry'
+import { startingTiles } from './fieldElements'
+import { profileTime } from './simulation'
+
+// Segments shorter than this (in) don't move the robot
+const ZERO_LENGTH = 0.1
+const FULL_SPEED = 127
+
+export interface LintContext {
+  points: Point[];
+  samples: PathSample[];
+  robot: RobotProfile;
+  model: DrivetrainModel; // with the robot's top speed
+  field: string;
+}
+
+type LintRule = (context: LintContext) => RouteLintIssue[]
+
+// Length (in) of every segment by the index of its destination point
+const getSegmentLengths = (samples: PathSample[]) => {
+  // Each segment ends where the next starts, so the last sample of each one gives its end
+  const ends: number[] = []
+  samples.forEach(s => { ends[s.segment] = s.distance })
+  const lengths: number[] = []
+  let previousEnd = 0
+  ends.forEach((end, segment) => {
+    lengths[segment] = end - previousEnd
+    previousEnd = end
+  })
+  return lengths
+}
+
+const zeroLengthSegments: LintRule = ({ samples }) => {
+  const issues: RouteLintIssue[] = []
+  getSegmentLengths(samples).forEach((length, segment) => {
+    if (segment > 0 && length < ZERO_LENGTH) {
+      issues.push({ rule: 'zero-length', severity: 'error', pointIndex: segment, message: `sits on point ${segment - 1}, the segment has no length` })
+    }
+  })
+  return issues
+}
+
+// The drive can't finish before its timeout even at full acceleration and top speed
+const shortTimeouts: LintRule = ({ points, samples, model }) => {
+  const issues: RouteLintIssue[] = []
+  getSegmentLengths(samples).forEach((length, segment) => {
+    const point = points[segment]
+    if (segment === 0 || !point) return
+    const needed = profileTime(length, (model.maxVelocity * point.speed) / FULL_SPEED, model.acceleration) * 1000
+    if (point.timeout < needed) {
+      issues.push({ rule: 'short-timeout', severity: 'warning', pointIndex: segment, message: `timeout ${point.timeout}ms is shorter than the ${Math.ceil(needed)}ms needed to drive ${length.toFixed(1)}in` })
+    }
+  })
+  return issues
+}
+
+const outsideField: LintRule = ({ points }) => {
+  const issues: RouteLintIssue[] = []
+  points.forEach((p, index) => {
+    if (Math.abs(p.fieldX) > FIELD_HALF_INCHES || Math.abs(p.fieldY) > FIELD_HALF_INCHES) {
+      issues.push({ rule: 'outside-field', severity: 'error', pointIndex: index, message: `(${p.fieldX.toFixed(1)}, ${p.fieldY.toFixed(1)}) is outside the field` })
+    }
+  })
+  return issues
+}
+
+// Slamming into reverse straight out of a full speed forwards move tips the robot and slips the wheels
+const fullSpeedReversals: LintRule = ({ points }) => {
+  const issues: RouteLintIssue[] = []
+  for (let i = 2; i < points.length; i++) {
+    if (points[i - 1].forwards && points[i - 1].speed >= FULL_SPEED && !points[i].forwards) {
+      issues.push({ rule: 'full-speed-reversal', severity: 'warning', pointIndex: i, message: 'reverses right after a forwards move at full speed' })
+    }
+  }
+  return issues
+}
+
+const illegalStart: LintRule = ({ points, robot, field }) => {
+  const tiles = startingTiles[field] ?? []
+  if (points.length === 0 || tiles.length === 0) return []
+  const start = points[0]
+  const corners = getRobotCorners({ fieldX: start.fieldX, fieldY: start.fieldY, facing: getEffectiveTheta(points, 0) }, robot)
+  if (tiles.some(tile => rectanglesTouch(corners, getElementCorners(tile)))) return []
+  return [{ rule: 'illegal-start', severity: 'error', pointIndex: 0, message: `start pose doesn't touch the ${tiles.map(t => t.name).join(' or ')}` }]
+}
+
+const RULES: LintRule[] = [zeroLengthSegments, shortTimeouts, outsideField, fullSpeedReversals, illegalStart]
+
+// Run every rule over the route, issues are listed in point order
+export const lintRoute = (context: LintContext): RouteLintIssue[] => {
+  return RULES.flatMap(rule => rule(context)).sort((a, b) => a.pointIndex - b.pointIndex)
+}
@@ -0,0 +1,161 @@
+import type { FieldPosition, Point } from './types'
+import { headingBetween, normalizeDegrees } from './geometry'
+
+export const DEFAULT_LEAD = 0.6
+
+// Number of samples used to approximate each curved segment
+const CURVE_SAMPLES = 32
+
+// Number of chained waypoints a bezier segment is broken into for chassis calls that can't follow curves
+export const BEZIER_WAYPOINTS = 4
+
+export interface PathSample {
+  fieldX: number;
+  fieldY: number;
+  segment: number; // index of the destination point of the segment this sample belongs to
+  distance: number; // cumulative distance along the whole path in inches
+}
+
+const lerp = (a: FieldPosition, b: FieldPosition, t: number): FieldPosition => ({
+  fieldX: a.fieldX + (b.fieldX - a.fieldX) * t,
+  fieldY: a.fieldY + (b.fieldY - a.fieldY) * t,
+})
+
+// Unit vector in field coordinates for a heading in degrees (0=up, 90=right)
+const headingVector = (degrees: number) => {
+  const radians = (degrees * Math.PI) / 180
+  return { fieldX: Math.sin(radians), fieldY: Math.cos(radians) }
+}
+
+// Default bezier handles: a third of the way along the straight line from each end
+export const getDefaultControls = (from: FieldPosition, to: FieldPosition): [FieldPosition, FieldPosition] => {
+  return [lerp(from, to, 1 / 3), lerp(from, to, 2 / 3)]
+}
+
+// Every segment is described as a cubic Bezier [start, c1, c2, end]
+// point: a straight line with controls at the thirds
+// pose: the quadratic curve through the boomerang carrot point, elevated to a cubic
+// bezier: the stored handles
+export const getSegmentControls = (from: Point, to: Point): [FieldPosition, FieldPosition, FieldPosition, FieldPosition] => {
+  if (to.motion === 'pose') {
+    const distance = Math.hypot(to.fieldX - from.fieldX, to.fieldY - from.fieldY)
+    // The robot drives backwards into a pose, so its travel direction is opposite the target heading
+    const travel = headingVector(to.forwards ? to.theta : to.theta + 180)
+    const carrot = {
+      fieldX: to.fieldX - travel.fieldX * distance * to.lead,
+      fieldY: to.fieldY - travel.fieldY * distance * to.lead,
+    }
+    return [from, lerp(from, carrot, 2 / 3), lerp(to, carrot, 2 / 3), to]
+  }
+  const [c1, c2] = to.motion === 'bezier' && to.controls ? to.controls : getDefaultControls(from, to)
+  return [from, c1, c2, to]
+}
+
+// Position on the segment arriving at `to` at curve parameter t (0-1)
+export const getSegmentPosition = (from: Point, to: Point, t: number): FieldPosition => {
+  const [p0, p1, p2, p3] = getSegmentControls(from, to)
+  const u = 1 - t
+  const a = u * u * u
+  const b = 3 * u * u * t
+  const c = 3 * u * t * t
+  const d = t * t * t
+  return {
+    fieldX: a * p0.fieldX + b * p1.fieldX + c * p2.fieldX + d * p3.fieldX,
+    fieldY: a * p0.fieldY + b * p1.fieldY + c * p2.fieldY + d * p3.fieldY,
+  }
+}
+
+// Travel heading of the robot leaving `from` toward `to`
+export const getSegmentStartHeading = (from: Point, to: Point) => {
+  const [p0, p1, , p3] = getSegmentControls(from, to)
+  const handle = Math.hypot(p1.fieldX - p0.fieldX, p1.fieldY - p0.fieldY) > 1e-6 ? p1 : p3
+  return headingBetween(p0.fieldX, p0.fieldY, handle.fieldX, handle.fieldY)
+}
+
+// Travel heading of the robot arriving at `to`
+export const getSegmentEndHeading = (from: Point, to: Point) => {
+  const [p0, , p2, p3] = getSegmentControls(from, to)
+  const handle = Math.hypot(p3.fieldX - p2.fieldX, p3.fieldY - p2.fieldY) > 1e-6 ? p2 : p0
+  return headingBetween(handle.fieldX, handle.fieldY, p3.fieldX, p3.fieldY)
+}
+
+// Heading the robot body faces while travelling in a given direction
+export const facingHeading = (travelHeading: number, forwards: boolean) => {
+  return forwards ? travelHeading : normalizeDegrees(travelHeading + 180)
+}
+
+// Effective heading of a point
+// For non-last points: direction the robot leaves toward the next point
+// For last point: use stored theta value
+export const getEffectiveTheta = (points: Point[], index: number): number => {
+  if (index < points.length - 1) {
+    return getSegmentStartHeading(points[index], points[index + 1])
+  }
+  return points[index].theta
+}
+
+// Sample the whole route as a polyline, with straight segments represented by their two endpoints
+export const samplePath = (points: Point[]): PathSample[] => {
+  if (points.length === 0) return []
+  const samples: PathSample[] = [{ fieldX: points[0].fieldX, fieldY: points[0].fieldY, segment: 1, distance: 0 }]
+  for (let i = 1; i < points.length; i++) {
+    const count = points[i].motion === 'point' ? 1 : CURVE_SAMPLES
+    for (let k = 1; k <= count; k++) {
+      const pos = getSegmentPosition(points[i - 1], points[i], k / count)
+      const prev = samples[samples.length - 1]
+      const distance = prev.distance + Math.hypot(pos.fieldX - prev.fieldX, pos.fieldY - prev.fieldY)
+      samples.push({ ...pos, segment: i, distance })
+    }
+  }
+  return samples
+}
+
+export interface PathPose extends FieldPosition {
+  heading: number; // travel heading in degrees, opposite the way the robot faces on backwards segments
+  segment: number; // index of the destination point
+}
+
+// Pose of the tracking center a distance (in) along the sampled path
+// Past the end of the path the robot rests on the last point at its stored heading
+export const getPoseAtDistance = (points: Point[], samples: PathSample[], distance: number): PathPose => {
+  for (let i = 1; i < samples.length; i++) {
+    const a = samples[i - 1]
+    const b = samples[i]
+    if (b.distance >= distance && b.distance > a.distance) {
+      const t = Math.max(0, (distance - a.distance) / (b.distance - a.distance))
+      return { ...lerp(a, b, t), heading: headingBetween(a.fieldX, a.fieldY, b.fieldX, b.fieldY), segment: b.segment }
+    }
+  }
+  const last = points[points.length - 1]
+  return { fieldX: last.fieldX, fieldY: last.fieldY, heading: facingHeading(last.theta, last.forwards), segment: points.length - 1 }
+}
+
+// Evenly spaced (by distance) positions along the segment arriving at `to`, ending at `to`
+export const getSegmentWaypoints = (from: Point, to: Point, count: number): FieldPosition[] => {
+  const samples = samplePath([from, to])
+  const total = samples[samples.length - 1].distance
+  const waypoints: FieldPosition[] = []
+  let j = 1
+  for (let k = 1; k < count; k++) {
+    const target = (total * k) / count
+    while (j < samples.length - 1 && samples[j].distance < target) j++
+    const a = samples[j - 1]
+    const b = samples[j]
+    const span = b.distance - a.distance
+    waypoints.push(lerp(a, b, span > 0 ? (target - a.distance) / span : 0))
+  }
+  waypoints.push({ fieldX: to.fieldX, fieldY: to.fieldY })
+  return waypoints
+}
+
+// Move the bezier handles attached to a point (its own end handle and the next segment's start handle) by an offset
+export const shiftAttachedControls = (points: Point[], id: number, dx: number, dy: number): Point[] => {
+  const index = points.findIndex(p => p.id === id)
+  const shift = (c: FieldPosition): FieldPosition => ({ fieldX: c.fieldX + dx, fieldY: c.fieldY + dy })
+  return points.map((p, i) => {
+    if (!p.controls) return p
+    if (i === index) return { ...p, controls: [p.controls[0], shift(p.controls[1])] }
+    if (i === index + 1) return { ...p, controls: [shift(p.controls[0]), p.controls[1]] }
+    return p
+  })
+}
@@ -0,0 +1,57 @@
+import type { FieldPosition, Point } from './types'
+import { fieldToPixel } from './geometry'
+import { DEFAULT_LEAD, getDefaultControls } from './path'
+
+// A new straight move to a position, with the defaults used when placing points on the canvas
+export const createPoint = (position: FieldPosition, id: number, base: Partial<Omit<Point, 'id'>> = {}): Point => {
+  const { x, y } = fieldToPixel(position.fieldX, position.fieldY)
+  return {
+    theta: 0,
+    timeout: 1000,
+    speed: 70,
+    forwards: true,
+    motion: 'point',
+    lead: DEFAULT_LEAD,
+    actions: [],
+    ...base,
+    x,
+    y,
+    fieldX: position.fieldX,
+    fieldY: position.fieldY,
+    id,
+  }
+}
+
+// Bezier handles shape the segment arriving at their point, so they are straightened when the point before it changes
+const resetChangedSegments = (before: Point[], after: Point[]): Point[] => {
+  return after.map((p, i) => {
+    if (p.motion !== 'bezier' || i === 0) return p
+    const previousBefore = before[before.findIndex(b => b.id === p.id) - 1]
+    if (previousBefore?.id === after[i - 1].id) return p
+    return { ...p, controls: getDefaultControls(after[i - 1], p) }
+  })
+}
+
+// Insert a point so it becomes points[index]
+export const insertPoint = (points: Point[], index: number, point: Point): Point[] => {
+  return resetChangedSegments(points, [...points.slice(0, index), point, ...points.slice(index)])
+}
+
+// Move the point at one index to another, as when dragging it in the points list
+export const movePoint = (points: Point[], from: number, to: number): Point[] => {
+  if (from === to) return points
+  const reordered = [...points]
+  const [moved] = reordered.splice(from, 1)
+  reordered.splice(to, 0, moved)
+  return resetChangedSegments(points, reordered)
+}
+
+export const deletePoints = (points: Point[], ids: number[]): Point[] => {
+  return resetChangedSegments(points, points.filter(p => !ids.includes(p.id)))
+}
+
+// Copies of points inserted after an index (-1 for the start), numbered from firstId
+export const pastePoints = (points: Point[], copied: Point[], afterIndex: number, firstId: number): Point[] => {
+  const pasted = copied.map((p, i) => ({ ...p, id: firstId + i, actions: p.actions.map(a => ({ ...a })) }))
+  return resetChangedSegments(points, [...points.slice(0, afterIndex + 1), ...pasted, ...points.slice(afterIndex + 1)])
+}
@@ -0,0 +1,26 @@
+import type { RobotProfile } from './types'
+
+// 3.25" wheels on 600 rpm motors geared 36:60, a common competition drivetrain
+export const DEFAULT_ROBOT: RobotProfile = {
+  id: 'default',
+  name: 'Default Robot',
+  width: 15,
+  length: 15,
+  trackingOffset: { forward: 0, right: 0 },
+  wheelDiameter: 3.25,
+  gearRatio: 0.6,
+  maxRpm: 600,
+  chassisName: '',
+}
+
+// Fill in fields a saved robot is missing, routes saved before profiles existed only have a size
+export const withRobotDefaults = (robot: Partial<RobotProfile>): RobotProfile => ({
+  ...DEFAULT_ROBOT,
+  ...robot,
+  trackingOffset: { ...DEFAULT_ROBOT.trackingOffset, ...robot.trackingOffset },
+})
+
+// Top linear speed (in/s) from the wheel size and motor speed
+export const getMaxVelocity = (robot: RobotProfile) => {
+  return (robot.maxRpm * robot.gearRatio * Math.PI * robot.wheelDiameter) / 60
+}
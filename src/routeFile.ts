@@ -0,0 +1,272 @@
+import type { ActionTiming, FieldPosition, MotionType, PistonState, Point, RobotProfile, RouteDocument, RouteFileIssue, SavedRoute, WaypointAction } from './types'
+import { BUILTIN_FIELDS } from './constants'
+import { fieldToPixel } from './geometry'
+import { DEFAULT_LEAD, getDefaultControls } from './path'
+import { ACTION_TIMINGS, PISTON_STATES } from './actions'
+import { createId } from './storage'
+
+export const ROUTE_FORMAT = 'vex-route-planner'
+export const ROUTE_FORMAT_VERSION = 1
+
+const MOTIONS: MotionType[] = ['point', 'pose', 'bezier']
+const TIMINGS = ACTION_TIMINGS.map(t => t.value)
+const STATES = PISTON_STATES.map(s => s.value)
+
+// Thrown when a route file can't be loaded, with every problem that was found
+export class RouteFileError extends Error {
+  issues: RouteFileIssue[]
+
+  constructor(issues: RouteFileIssue[]) {
+    super(issues.map(i => `${i.path}: ${i.message}`).join('\n'))
+    this.name = 'RouteFileError'
+    this.issues = issues
+  }
+}
+
+export interface ParsedRouteFile {
+  route: Omit<SavedRoute, 'id'>;
+  warnings: RouteFileIssue[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const describe = (value: unknown) => {
+  if (value === undefined) return 'nothing'
+  return JSON.stringify(value)
+}
+
+export const serializeRoute = (route: Omit<SavedRoute, 'id'>): string => {
+  const { name, width, length, trackingOffset, wheelDiameter, gearRatio, maxRpm, chassisName } = route.robot
+  const doc: RouteDocument = {
+    format: ROUTE_FORMAT,
+    version: ROUTE_FORMAT_VERSION,
+    field: route.field,
+    robot: { name, width, length, trackingOffset, wheelDiameter, gearRatio, maxRpm, chassisName },
+    points: route.points.map(({ fieldX, fieldY, theta, timeout, speed, forwards, motion, lead, controls, actions }) => ({
+      fieldX, fieldY, theta, timeout, speed, forwards, motion, lead, controls, actions,
+    })),
+    metadata: { name: route.name, exportedAt: new Date().toISOString() },
+  }
+  return JSON.stringify(doc, null, 2)
+}
+
+// Version 0 is the bare array of points the app used to download, with stale pixel coordinates and ids
+const migrateV0 = (points: unknown[], fallback: Omit<SavedRoute, 'id' | 'points'>): Record<string, unknown> => ({
+  format: ROUTE_FORMAT,
+  version: 1,
+  field: fallback.field,
+  robot: { width: fallback.robot.width, length: fallback.robot.length },
+  points,
+  metadata: { name: fallback.name },
+})
+
+// Reads numeric fields of an object, recording an error for each one that is missing or out of range
+const numberReader = (raw: Record<string, unknown>, path: string, errors: RouteFileIssue[]) => (key: string, min?: number, max?: number) => {
+  const value = raw[key]
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push({ path: `${path}.${key}`, message: `expected a number, got ${describe(value)}` })
+    return 0
+  }
+  if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    errors.push({ path: `${path}.${key}`, message: `expected a number from ${min ?? '-∞'} to ${max ?? '∞'}, got ${value}` })
+  }
+  return value
+}
+
+const validateAction = (raw: unknown, path: string, errors: RouteFileIssue[]): WaypointAction | null => {
+  if (!isRecord(raw)) {
+    errors.push({ path, message: `expected an object, got ${describe(raw)}` })
+    return null
+  }
+  const errorCount = errors.length
+  const number = numberReader(raw, path, errors)
+  const string = (key: string) => {
+    if (typeof raw[key] !== 'string') {
+      errors.push({ path: `${path}.${key}`, message: `expected text, got ${describe(raw[key])}` })
+      return ''
+    }
+    return raw[key]
+  }
+
+  const timing = raw.timing as ActionTiming
+  if (!TIMINGS.includes(timing)) {
+    errors.push({ path: `${path}.timing`, message: `expected one of ${TIMINGS.join(', ')}, got ${describe(raw.timing)}` })
+  }
+  const distance = timing === 'distance' || raw.distance !== undefined ? number('distance', 0) : 0
+
+  let action: WaypointAction | null = null
+  switch (raw.kind) {
+    case 'motor':
+      action = { timing, distance, kind: 'motor', target: string('target'), velocity: number('velocity', -127, 127) }
+      break
+    case 'pneumatic': {
+      const state = raw.state as PistonState
+      if (!STATES.includes(state)) {
+        errors.push({ path: `${path}.state`, message: `expected one of ${STATES.join(', ')}, got ${describe(raw.state)}` })
+      }
+      action = { timing, distance, kind: 'pneumatic', target: string('target'), state }
+      break
+    }
+    case 'wait':
+      action = { timing, distance, kind: 'wait', duration: number('duration', 0) }
+      break
+    case 'custom':
+      action = { timing, distance, kind: 'custom', code: string('code') }
+      break
+    default:
+      errors.push({ path: `${path}.kind`, message: `expected motor, pneumatic, wait or custom, got ${describe(raw.kind)}` })
+  }
+  return errors.length > errorCount ? null : action
+}
+
+const validatePoint = (raw: unknown, index: number, prev: FieldPosition | null, errors: RouteFileIssue[], warnings: RouteFileIssue[]): Point | null => {
+  const path = `points[${index}]`
+  if (!isRecord(raw)) {
+    errors.push({ path, message: `expected an object, got ${describe(raw)}` })
+    return null
+  }
+  const errorCount = errors.length
+  const number = numberReader(raw, path, errors)
+
+  const fieldX = number('fieldX')
+  const fieldY = number('fieldY')
+  const theta = number('theta')
+  const timeout = number('timeout', 0)
+  const speed = number('speed', 1, 127)
+
+  if (typeof raw.forwards !== 'boolean') {
+    errors.push({ path: `${path}.forwards`, message: `expected true or false, got ${describe(raw.forwards)}` })
+  }
+
+  let motion: MotionType = 'point'
+  if (raw.motion !== undefined) {
+    if (MOTIONS.includes(raw.motion as MotionType)) {
+      motion = raw.motion as MotionType
+    } else {
+      errors.push({ path: `${path}.motion`, message: `expected one of ${MOTIONS.join(', ')}, got ${describe(raw.motion)}` })
+    }
+  }
+
+  const lead = raw.lead === undefined ? DEFAULT_LEAD : number('lead', 0, 1)
+
+  let controls: Point['controls']
+  if (raw.controls !== undefined) {
+    const c = raw.controls
+    if (Array.isArray(c) && c.length === 2 && c.every(h => isRecord(h) && typeof h.fieldX === 'number' && typeof h.fieldY === 'number')) {
+      controls = [
+        { fieldX: c[0].fieldX, fieldY: c[0].fieldY },
+        { fieldX: c[1].fieldX, fieldY: c[1].fieldY },
+      ]
+    } else {
+      errors.push({ path: `${path}.controls`, message: `expected two {fieldX, fieldY} handles, got ${describe(c)}` })
+    }
+  } else if (motion === 'bezier' && prev && errors.length === errorCount) {
+    controls = getDefaultControls(prev, { fieldX, fieldY })
+    warnings.push({ path: `${path}.controls`, message: 'missing bezier handles, using a straight curve' })
+  }
+
+  const actions: WaypointAction[] = []
+  if (Array.isArray(raw.actions)) {
+    raw.actions.forEach((a, i) => {
+      const action = validateAction(a, `${path}.actions[${i}]`, errors)
+      if (action) actions.push(action)
+    })
+  } else if (raw.actions !== undefined) {
+    errors.push({ path: `${path}.actions`, message: `expected a list of actions, got ${describe(raw.actions)}` })
+  }
+
+  if (errors.length > errorCount) return null
+
+  const { x, y } = fieldToPixel(fieldX, fieldY)
+  return { x, y, fieldX, fieldY, id: index, theta, timeout, speed, forwards: raw.forwards as boolean, motion, lead, controls, actions }
+}
+
+// Files from before robot profiles only have a size, the rest of the robot comes from the current one
+// The robot gets a new id since it may not match any saved profile
+const readRobot = (raw: unknown, fallback: RobotProfile, warnings: RouteFileIssue[]): RobotProfile => {
+  const robot = isRecord(raw) ? raw : {}
+  const width = typeof robot.width === 'number' && robot.width > 0 ? robot.width : fallback.width
+  const length = typeof robot.length === 'number' && robot.length > 0 ? robot.length : fallback.length
+  if (width !== robot.width || length !== robot.length) {
+    warnings.push({ path: 'robot', message: 'missing or invalid robot size, keeping the current size' })
+  }
+
+  const positive = (key: 'wheelDiameter' | 'gearRatio' | 'maxRpm') => {
+    const value = robot[key]
+    if (value === undefined) return fallback[key]
+    if (typeof value === 'number' && value > 0) return value
+    warnings.push({ path: `robot.${key}`, message: `expected a positive number, got ${describe(value)}, keeping the current value` })
+    return fallback[key]
+  }
+  const text = (key: 'name' | 'chassisName') => typeof robot[key] === 'string' ? robot[key] : fallback[key]
+  const offset = isRecord(robot.trackingOffset) ? robot.trackingOffset : {}
+
+  return {
+    id: createId(),
+    name: text('name'),
+    width,
+    length,
+    trackingOffset: {
+      forward: typeof offset.forward === 'number' ? offset.forward : fallback.trackingOffset.forward,
+      right: typeof offset.right === 'number' ? offset.right : fallback.trackingOffset.right,
+    },
+    wheelDiameter: positive('wheelDiameter'),
+    gearRatio: positive('gearRatio'),
+    maxRpm: positive('maxRpm'),
+    chassisName: text('chassisName'),
+  }
+}
+
+// Read a downloaded route file, migrating older formats and reporting exactly what is wrong with it
+// fallback fills in what older formats didn't store, fieldIds are the fields this browser has
+export const parseRouteFile = (text: string, fallback: Omit<SavedRoute, 'id' | 'points'>, fieldIds = BUILTIN_FIELDS.map(f => f.id)): ParsedRouteFile => {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new RouteFileError([{ path: 'file', message: 'not valid JSON' }])
+  }
+
+  const warnings: RouteFileIssue[] = []
+  if (Array.isArray(json)) {
+    json = migrateV0(json, fallback)
+    warnings.push({ path: 'file', message: 'converted from the old points-only format, field and robot size were not saved' })
+  }
+
+  if (!isRecord(json) || json.format !== ROUTE_FORMAT) {
+    throw new RouteFileError([{ path: 'format', message: `not a route file, expected format "${ROUTE_FORMAT}"` }])
+  }
+  if (typeof json.version !== 'number' || !Number.isInteger(json.version) || json.version < 1 || json.version > ROUTE_FORMAT_VERSION) {
+    throw new RouteFileError([{ path: 'version', message: `unsupported version ${describe(json.version)}, expected a whole number from 1 up to ${ROUTE_FORMAT_VERSION}` }])
+  }
+
+  const errors: RouteFileIssue[] = []
+
+  let field = fallback.field
+  if (typeof json.field === 'string' && fieldIds.includes(json.field)) {
+    field = json.field
+  } else {
+    warnings.push({ path: 'field', message: `unknown field ${describe(json.field)}, keeping the current field` })
+  }
+
+  const robot = readRobot(json.robot, fallback.robot, warnings)
+
+  const points: Point[] = []
+  if (!Array.isArray(json.points)) {
+    errors.push({ path: 'points', message: `expected a list of points, got ${describe(json.points)}` })
+  } else {
+    json.points.forEach((raw, index) => {
+      const point = validatePoint(raw, index, points[points.length - 1] ?? null, errors, warnings)
+      if (point) points.push(point)
+    })
+  }
+
+  if (errors.length > 0) throw new RouteFileError(errors)
+
+  const metadata = isRecord(json.metadata) ? json.metadata : {}
+  const name = typeof metadata.name === 'string' && metadata.name ? metadata.name : fallback.name
+
+  return { route: { name, field, robot, points }, warnings }
+}
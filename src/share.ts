@@ -0,0 +1,99 @@
+import type { MotionType, Point, RobotProfile, SavedRoute, WaypointAction } from './types'
+import { fieldToPixel } from './geometry'
+import { DEFAULT_LEAD } from './path'
+import { createId, createRoute } from './storage'
+import { DEFAULT_ROBOT, withRobotDefaults } from './robots'
+
+// Bump when the compact layout below changes
+// Version 1 links only carry the robot size, as w and l
+const SHARE_VERSION = 2
+
+const MOTIONS: MotionType[] = ['point', 'pose', 'bezier']
+
+// One point as [fieldX, fieldY, theta, timeout, speed, forwards, motion, lead, c1x, c1y, c2x, c2y]
+type CompactPoint = number[]
+
+interface CompactRoute {
+  v: number;
+  n: string; // name
+  f: string; // field
+  r?: RobotProfile; // robot, given a new id when the link is opened
+  w?: number; // bot width, version 1
+  l?: number; // bot length, version 1
+  p: CompactPoint[];
+  a?: Record<number, WaypointAction[]>; // actions by point index, only for points that have any
+}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = ''
+  bytes.forEach(b => { binary += String.fromCharCode(b) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, c => c.charCodeAt(0))
+}
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+const compactPoint = (p: Point): CompactPoint => {
+  const compact = [p.fieldX, p.fieldY, p.theta, p.timeout, p.speed, p.forwards ? 1 : 0, MOTIONS.indexOf(p.motion), p.lead]
+  if (p.controls) compact.push(p.controls[0].fieldX, p.controls[0].fieldY, p.controls[1].fieldX, p.controls[1].fieldY)
+  return compact
+}
+
+const expandPoint = (c: CompactPoint, id: number, actions: WaypointAction[]): Point => {
+  const [fieldX, fieldY, theta, timeout, speed, forwards, motion, lead, c1x, c1y, c2x, c2y] = c
+  const { x, y } = fieldToPixel(fieldX, fieldY)
+  return {
+    x,
+    y,
+    fieldX,
+    fieldY,
+    id,
+    theta,
+    timeout,
+    speed,
+    forwards: forwards === 1,
+    motion: MOTIONS[motion] ?? 'point',
+    lead: lead ?? DEFAULT_LEAD,
+    controls: c.length >= 12 ? [{ fieldX: c1x, fieldY: c1y }, { fieldX: c2x, fieldY: c2y }] : undefined,
+    actions,
+  }
+}
+
+// Compress a route into a URL-safe string for the /share link fragment
+export const encodeShareData = async (route: Omit<SavedRoute, 'id'>) => {
+  const compact: CompactRoute = {
+    v: SHARE_VERSION,
+    n: route.name,
+    f: route.field,
+    r: route.robot,
+    p: route.points.map(compactPoint),
+  }
+  route.points.forEach((p, index) => {
+    if (p.actions.length > 0) compact.a = { ...compact.a, [index]: p.actions }
+  })
+  const bytes = new TextEncoder().encode(JSON.stringify(compact))
+  return toBase64Url(await transform(bytes, new CompressionStream('deflate-raw')))
+}
+
+// Turn a /share link fragment back into a new library route
+export const decodeShareData = async (data: string): Promise<SavedRoute> => {
+  const bytes = await transform(fromBase64Url(data), new DecompressionStream('deflate-raw'))
+  const compact = JSON.parse(new TextDecoder().decode(bytes)) as CompactRoute
+  if (compact.v < 1 || compact.v > SHARE_VERSION || !Array.isArray(compact.p)) {
+    throw new Error('Unsupported share link')
+  }
+  return createRoute(compact.n || 'Shared route', {
+    field: compact.f,
+    robot: { ...withRobotDefaults(compact.r ?? { width: compact.w ?? DEFAULT_ROBOT.width, length: compact.l ?? DEFAULT_ROBOT.length }), id: createId() },
+    points: compact.p.map((c, index) => expandPoint(c, index, compact.a?.[index] ?? [])),
+  })
+}
+
+export const buildShareUrl = (data: string) => `${window.location.origin}/share#${data}`
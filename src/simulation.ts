@@ -0,0 +1,146 @@
+import type { DrivetrainModel, Point } from './types'
+import { angleDifference, normalizeDegrees } from './geometry'
+import { facingHeading, getEffectiveTheta, getSegmentEndHeading, getSegmentStartHeading, samplePath } from './path'
+
+export const DEFAULT_DRIVETRAIN: DrivetrainModel = {
+  maxVelocity: 60,
+  acceleration: 120,
+  turnRate: 360,
+  turnAcceleration: 1080,
+}
+
+// Autonomous period lengths in seconds
+export const MATCH_AUTON_TIME = 15
+export const SKILLS_AUTON_TIME = 60
+
+interface Phase {
+  kind: 'turn' | 'drive';
+  segment: number; // index of the destination point
+  start: number; // s
+  duration: number; // s
+  amount: number; // degrees turned (signed) or inches driven
+  maxVelocity: number;
+  acceleration: number;
+  fromHeading: number; // facing heading at the start of a turn
+  startDistance: number; // distance along the path at the start of the phase
+}
+
+export interface SegmentTime {
+  segment: number; // index of the destination point
+  turnTime: number; // s
+  driveTime: number; // s
+  total: number; // s
+}
+
+export interface SimulationPlan {
+  phases: Phase[];
+  segments: SegmentTime[];
+  totalTime: number; // s
+  totalDistance: number; // in
+}
+
+export interface SimulationState {
+  distance: number; // in along the path
+  facing: number | null; // heading the robot body faces while turning in place, null while driving along the path
+  segment: number; // index of the destination point
+}
+
+// Time to cover a distance with a trapezoidal velocity profile (triangular if max velocity is never reached)
+export const profileTime = (distance: number, maxVelocity: number, acceleration: number) => {
+  if (distance <= 0) return 0
+  const accelDistance = (maxVelocity * maxVelocity) / (2 * acceleration)
+  if (2 * accelDistance >= distance) {
+    return 2 * Math.sqrt(distance / acceleration)
+  }
+  return 2 * (maxVelocity / acceleration) + (distance - 2 * accelDistance) / maxVelocity
+}
+
+// Distance covered after time t along the same profile
+const profilePosition = (t: number, distance: number, maxVelocity: number, acceleration: number) => {
+  const total = profileTime(distance, maxVelocity, acceleration)
+  if (t <= 0) return 0
+  if (t >= total) return distance
+  const peakVelocity = Math.min(maxVelocity, Math.sqrt(distance * acceleration))
+  const accelTime = peakVelocity / acceleration
+  if (t < accelTime) return 0.5 * acceleration * t * t
+  const remaining = total - t
+  if (remaining < accelTime) return distance - 0.5 * acceleration * remaining * remaining
+  return 0.5 * acceleration * accelTime * accelTime + peakVelocity * (t - accelTime)
+}
+
+// Build the turn-then-drive phases for every segment of the route
+// Speeds (1-127) scale the drivetrain's max linear and angular velocity, like maxSpeed does on the robot
+export const planSimulation = (points: Point[], model: DrivetrainModel): SimulationPlan => {
+  const samples = samplePath(points)
+  const segmentEnds: number[] = []
+  samples.forEach(s => { segmentEnds[s.segment] = s.distance })
+
+  const phases: Phase[] = []
+  const segments: SegmentTime[] = []
+  let time = 0
+  let distance = 0
+  let facing = points.length > 0 ? getEffectiveTheta(points, 0) : 0
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1]
+    const to = points[i]
+    const scale = to.speed / 127
+
+    // Turn in place to face along the segment, moveToPose curves straight from the current heading instead
+    const targetFacing = facingHeading(getSegmentStartHeading(from, to), to.forwards)
+    const turn = to.motion === 'pose' ? 0 : angleDifference(facing, targetFacing)
+    const turnVelocity = model.turnRate * scale
+    const turnTime = profileTime(Math.abs(turn), turnVelocity, model.turnAcceleration)
+    phases.push({ kind: 'turn', segment: i, start: time, duration: turnTime, amount: turn, maxVelocity: turnVelocity, acceleration: model.turnAcceleration, fromHeading: facing, startDistance: distance })
+    time += turnTime
+
+    // Drive along the segment
+    const length = (segmentEnds[i] ?? distance) - distance
+    const driveVelocity = model.maxVelocity * scale
+    const driveTime = profileTime(length, driveVelocity, model.acceleration)
+    phases.push({ kind: 'drive', segment: i, start: time, duration: driveTime, amount: length, maxVelocity: driveVelocity, acceleration: model.acceleration, fromHeading: targetFacing, startDistance: distance })
+    time += driveTime
+    distance += length
+
+    facing = facingHeading(getSegmentEndHeading(from, to), to.forwards)
+    segments.push({ segment: i, turnTime, driveTime, total: turnTime + driveTime })
+  }
+
+  return { phases, segments, totalTime: time, totalDistance: distance }
+}
+
+// Where the robot is at a time (s) into the simulation
+export const getSimulationState = (plan: SimulationPlan, time: number): SimulationState | null => {
+  const phase = plan.phases.find(p => time < p.start + p.duration) ?? plan.phases[plan.phases.length - 1]
+  if (!phase) return null
+  const t = Math.min(time - phase.start, phase.duration)
+  if (phase.kind === 'turn') {
+    const turned = profilePosition(t, Math.abs(phase.amount), phase.maxVelocity, phase.acceleration)
+    return {
+      distance: phase.startDistance,
+      facing: normalizeDegrees(phase.fromHeading + Math.sign(phase.amount) * turned),
+      segment: phase.segment,
+    }
+  }
+  return {
+    distance: phase.startDistance + profilePosition(t, phase.amount, phase.maxVelocity, phase.acceleration),
+    facing: null,
+    segment: phase.segment,
+  }
+}
+
+// Time (s) when the robot first reaches a distance (in) along the path
+export const getTimeAtDistance = (plan: SimulationPlan, distance: number) => {
+  const phase = plan.phases.find(p => p.kind === 'drive' && distance <= p.startDistance + p.amount)
+  if (!phase) return plan.totalTime
+  // Distance only grows through a phase, so search for the first time it is reached
+  const target = distance - phase.startDistance
+  let low = 0
+  let high = phase.duration
+  for (let i = 0; i < 30; i++) {
+    const mid = (low + high) / 2
+    if (profilePosition(mid, phase.amount, phase.maxVelocity, phase.acceleration) < target) low = mid
+    else high = mid
+  }
+  return phase.start + high
+}
@@ -0,0 +1,74 @@
+import type { FieldFeature, FieldPosition, SnapGuide, SnapSettings } from './types'
+import { headingBetween, round1 } from './geometry'
+
+export const DEFAULT_SNAP: SnapSettings = {
+  grid: false,
+  gridSize: 24,
+  features: false,
+  heading: false,
+  distance: false,
+  fixedDistance: 24,
+}
+
+export const GRID_SIZES: { value: string; label: string }[] = [
+  { value: '24', label: 'Tile (24 in)' },
+  { value: '12', label: 'Half Tile (12 in)' },
+  { value: '6', label: 'Quarter Tile (6 in)' },
+  { value: '1', label: '1 in' },
+]
+
+// How close (in) the mouse has to be to a field feature to jump onto it
+const FEATURE_RADIUS = 4
+const HEADING_STEP = 45
+
+export interface SnapResult {
+  position: FieldPosition;
+  guides: SnapGuide[];
+}
+
+export const isSnapping = (settings: SnapSettings) => settings.grid || settings.features || settings.heading || settings.distance
+
+// Snap a position under the mouse, previous is the point before the one being placed or dragged
+// A nearby field feature wins, then heading and distance from the previous point, then the grid
+export const snapPosition = (raw: FieldPosition, previous: FieldPosition | null, settings: SnapSettings, features: FieldFeature[]): SnapResult => {
+  if (settings.features) {
+    const nearest = features
+      .map(f => ({ feature: f, distance: Math.hypot(f.position.fieldX - raw.fieldX, f.position.fieldY - raw.fieldY) }))
+      .sort((a, b) => a.distance - b.distance)[0]
+    if (nearest && nearest.distance <= FEATURE_RADIUS) {
+      return { position: nearest.feature.position, guides: [{ kind: 'feature', position: nearest.feature.position, name: nearest.feature.name }] }
+    }
+  }
+
+  if (previous && (settings.heading || settings.distance)) {
+    const guides: SnapGuide[] = []
+    let heading = headingBetween(previous.fieldX, previous.fieldY, raw.fieldX, raw.fieldY)
+    let radius = Math.hypot(raw.fieldX - previous.fieldX, raw.fieldY - previous.fieldY)
+    if (settings.heading) {
+      heading = (Math.round(heading / HEADING_STEP) * HEADING_STEP) % 360
+      guides.push({ kind: 'heading', from: previous, heading })
+    }
+    if (settings.distance && settings.fixedDistance > 0) {
+      radius = settings.fixedDistance
+      guides.push({ kind: 'distance', center: previous, radius })
+    }
+    const radians = (heading * Math.PI) / 180
+    return {
+      position: {
+        fieldX: round1(previous.fieldX + Math.sin(radians) * radius),
+        fieldY: round1(previous.fieldY + Math.cos(radians) * radius),
+      },
+      guides,
+    }
+  }
+
+  if (settings.grid && settings.gridSize > 0) {
+    const position = {
+      fieldX: round1(Math.round(raw.fieldX / settings.gridSize) * settings.gridSize),
+      fieldY: round1(Math.round(raw.fieldY / settings.gridSize) * settings.gridSize),
+    }
+    return { position, guides: [{ kind: 'grid', position }] }
+  }
+
+  return { position: { fieldX: round1(raw.fieldX), fieldY: round1(raw.fieldY) }, guides: [] }
+}
@@ -0,0 +1,116 @@
+import type { FieldPreset, Point, RobotProfile, RouteLibrary, SavedRoute } from './types'
+import { DEFAULT_LEAD } from './path'
+import { DEFAULT_ROBOT, withRobotDefaults } from './robots'
+
+const LIBRARY_KEY = 'vex-route-planner:library'
+const ROBOTS_KEY = 'vex-route-planner:robots'
+const FIELDS_KEY = 'vex-route-planner:fields'
+
+// Routes saved before robot profiles existed
+type LegacySavedRoute = SavedRoute & { botWidth?: number; botLength?: number }
+
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+// Fill in fields added after a route was saved
+// Routes saved before curved segments existed only have straight moves, and none have actions
+export const withPointDefaults = (points: Point[]): Point[] => {
+  return points.map(p => ({ ...p, motion: p.motion ?? 'point', lead: p.lead ?? DEFAULT_LEAD, actions: p.actions ?? [] }))
+}
+
+export const createRoute = (name: string, base: Partial<Omit<SavedRoute, 'id' | 'name'>> = {}): SavedRoute => ({
+  id: createId(),
+  name,
+  points: [],
+  field: 'h2h',
+  robot: DEFAULT_ROBOT,
+  ...base,
+})
+
+export const createRobotProfile = (name: string, base: Partial<Omit<RobotProfile, 'id' | 'name'>> = {}): RobotProfile => ({
+  ...withRobotDefaults(base),
+  id: createId(),
+  name,
+})
+
+export const getActiveRoute = (library: RouteLibrary): SavedRoute => {
+  return library.routes.find(r => r.id === library.activeId) ?? library.routes[0]
+}
+
+// Read the library from localStorage, starting a fresh one if there is none or it can't be read
+export const loadLibrary = (): RouteLibrary => {
+  try {
+    const raw = localStorage.getItem(LIBRARY_KEY)
+    if (raw) {
+      const library = JSON.parse(raw) as { routes: LegacySavedRoute[]; activeId: string }
+      if (Array.isArray(library.routes) && library.routes.length > 0) {
+        return {
+          activeId: library.activeId,
+          routes: library.routes.map(({ botWidth, botLength, ...r }) => ({
+            ...r,
+            points: withPointDefaults(r.points),
+            robot: withRobotDefaults(r.robot ?? { width: botWidth ?? DEFAULT_ROBOT.width, length: botLength ?? DEFAULT_ROBOT.length }),
+          })),
+        }
+      }
+    }
+  } catch (err) {
+    console.warn('Failed to load saved routes', err)
+  }
+  const route = createRoute('Route 1')
+  return { routes: [route], activeId: route.id }
+}
+
+export const saveLibrary = (library: RouteLibrary) => {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(library))
+  } catch (err) {
+    console.warn('Failed to save routes', err)
+  }
+}
+
+// Read the saved robot profiles, starting with the default robot if there are none
+export const loadRobotProfiles = (): RobotProfile[] => {
+  try {
+    const raw = localStorage.getItem(ROBOTS_KEY)
+    if (raw) {
+      const profiles = JSON.parse(raw) as RobotProfile[]
+      if (Array.isArray(profiles) && profiles.length > 0) return profiles.map(withRobotDefaults)
+    }
+  } catch (err) {
+    console.warn('Failed to load robot profiles', err)
+  }
+  return [DEFAULT_ROBOT]
+}
+
+export const saveRobotProfiles = (profiles: RobotProfile[]) => {
+  try {
+    localStorage.setItem(ROBOTS_KEY, JSON.stringify(profiles))
+  } catch (err) {
+    console.warn('Failed to save robot profiles', err)
+  }
+}
+
+// Read the uploaded field presets, the built-in ones aren't saved
+export const loadFieldPresets = (): FieldPreset[] => {
+  try {
+    const raw = localStorage.getItem(FIELDS_KEY)
+    if (raw) {
+      const presets = JSON.parse(raw) as FieldPreset[]
+      if (Array.isArray(presets)) return presets.map(f => ({ ...f, layout: f.layout ?? '' }))
+    }
+  } catch (err) {
+    console.warn('Failed to load field presets', err)
+  }
+  return []
+}
+
+// Images are kept as data URLs, so a large upload can go over the storage quota
+export const saveFieldPresets = (presets: FieldPreset[]) => {
+  try {
+    localStorage.setItem(FIELDS_KEY, JSON.stringify(presets))
+    return true
+  } catch (err) {
+    console.warn('Failed to save field presets', err)
+    return false
+  }
+}
@@ -0,0 +1,178 @@
+import type { LivePose, Point, TelemetrySample, WaypointError } from './types'
+import { angleDifference, normalizeDegrees } from './geometry'
+import { facingHeading, getEffectiveTheta, getSegmentEndHeading } from './path'
+
+// Names accepted for each column, in CSV headers and JSON objects
+const COLUMNS = {
+  time: ['time', 'timestamp', 't', 'ms', 'millis'],
+  x: ['x'],
+  y: ['y'],
+  theta: ['theta', 'heading', 'h', 'angle'],
+}
+
+type Column = keyof typeof COLUMNS
+
+// Columns of a log without a header, like printf("%d,%f,%f,%f", pros::millis(), pose.x, pose.y, pose.theta)
+const DEFAULT_ORDER: Column[] = ['time', 'x', 'y', 'theta']
+
+const findColumn = (name: string): Column | undefined => {
+  const key = name.trim().toLowerCase()
+  return DEFAULT_ORDER.find(column => COLUMNS[column].includes(key))
+}
+
+// Start the log at 0 ms, in time order
+const normalizeSamples = (samples: TelemetrySample[]): TelemetrySample[] => {
+  const sorted = [...samples].sort((a, b) => a.time - b.time)
+  const start = sorted[0]?.time ?? 0
+  return sorted.map(s => ({ ...s, time: s.time - start, theta: normalizeDegrees(s.theta) }))
+}
+
+const readJsonSample = (entry: unknown): TelemetrySample | null => {
+  const values: Partial<Record<Column, unknown>> = {}
+  if (Array.isArray(entry)) {
+    DEFAULT_ORDER.forEach((column, i) => { values[column] = entry[i] })
+  } else if (typeof entry === 'object' && entry !== null) {
+    Object.entries(entry).forEach(([key, value]) => {
+      const column = findColumn(key)
+      if (column) values[column] = value
+    })
+  }
+  const { time, x, y, theta } = values
+  if ([time, x, y, theta].some(v => typeof v !== 'number' || !isFinite(v))) return null
+  return { time: time as number, fieldX: x as number, fieldY: y as number, theta: theta as number }
+}
+
+const parseJsonLog = (json: unknown): TelemetrySample[] => {
+  // A bare list, or a list under a key like { "samples": [...] }
+  const list = Array.isArray(json)
+    ? json
+    : typeof json === 'object' && json !== null ? Object.values(json).find(Array.isArray) ?? [] : []
+  return list.map(readJsonSample).filter((s): s is TelemetrySample => s !== null)
+}
+
+// CSV or whitespace separated lines, other terminal output in between is skipped
+const parseTextLog = (text: string): TelemetrySample[] => {
+  let order = DEFAULT_ORDER as (Column | undefined)[]
+  const samples: TelemetrySample[] = []
+  for (const line of text.split(/\r?\n/)) {
+    const cells = line.trim().split(/\s*[,;\t ]\s*/).filter(c => c !== '')
+    if (cells.length < 4) continue
+    const values = cells.map(c => parseFloat(c))
+    if (values.some(v => isNaN(v))) {
+      // A header names the columns for the lines after it
+      const header = cells.map(findColumn)
+      if (DEFAULT_ORDER.every(column => header.includes(column))) order = header
+      continue
+    }
+    const sample: Partial<Record<Column, number>> = {}
+    order.forEach((column, i) => { if (column) sample[column] = values[i] })
+    const { time, x, y, theta } = sample
+    if (time === undefined || x === undefined || y === undefined || theta === undefined) continue
+    samples.push({ time, fieldX: x, fieldY: y, theta })
+  }
+  return samples
+}
+
+// Read a logged run, timestamps are in ms like pros::millis() and poses in inches and degrees like chassis.getPose()
+export const parseTelemetryLog = (text: string): TelemetrySample[] => {
+  let samples: TelemetrySample[]
+  const trimmed = text.trim()
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let json: unknown
+    try {
+      json = JSON.parse(trimmed)
+    } catch {
+      throw new Error('Not valid JSON')
+    }
+    samples = parseJsonLog(json)
+  } else {
+    samples = parseTextLog(text)
+  }
+  if (samples.length < 2) throw new Error('No timestamp, x, y, theta samples found')
+  return normalizeSamples(samples)
+}
+
+// Read a pose streamed by the robot: a JSON object, or a terminal line of x, y, theta with an optional timestamp first
+// A message can hold several lines, the last pose in it wins
+export const parsePoseMessage = (text: string): LivePose | null => {
+  const trimmed = text.trim()
+  if (trimmed.startsWith('{')) {
+    try {
+      const sample = readJsonSample({ time: 0, ...JSON.parse(trimmed) })
+      return sample && { fieldX: sample.fieldX, fieldY: sample.fieldY, theta: normalizeDegrees(sample.theta) }
+    } catch {
+      return null
+    }
+  }
+  const lines = trimmed.split(/\r?\n/).reverse()
+  for (const line of lines) {
+    const values = line.trim().split(/\s*[,;\t ]\s*/).map(v => parseFloat(v))
+    if (values.length < 3 || values.length > 4 || values.some(v => isNaN(v))) continue
+    const [x, y, theta] = values.slice(-3)
+    return { fieldX: x, fieldY: y, theta: normalizeDegrees(theta) }
+  }
+  return null
+}
+
+// Pose at a time into the log, between the two samples around it
+export const getTelemetryPose = (samples: TelemetrySample[], time: number): TelemetrySample | null => {
+  if (samples.length === 0) return null
+  if (time <= samples[0].time) return samples[0]
+  const last = samples[samples.length - 1]
+  if (time >= last.time) return last
+  let low = 0
+  let high = samples.length - 1
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2)
+    if (samples[mid].time <= time) low = mid
+    else high = mid
+  }
+  const a = samples[low]
+  const b = samples[high]
+  const t = b.time > a.time ? (time - a.time) / (b.time - a.time) : 0
+  return {
+    time,
+    fieldX: a.fieldX + (b.fieldX - a.fieldX) * t,
+    fieldY: a.fieldY + (b.fieldY - a.fieldY) * t,
+    theta: normalizeDegrees(a.theta + angleDifference(a.theta, b.theta) * t),
+  }
+}
+
+// Heading the plan has the robot facing at a waypoint
+const getPlannedFacing = (points: Point[], index: number) => {
+  if (index === 0) return getEffectiveTheta(points, 0)
+  const point = points[index]
+  if (point.motion === 'pose') return point.theta
+  return facingHeading(getSegmentEndHeading(points[index - 1], point), point.forwards)
+}
+
+// Inches the log has to come within for the robot to count as having passed a waypoint
+const WAYPOINT_TOLERANCE = 6
+
+// Compare the log to every waypoint where the robot came closest to it
+// Each search starts from the previous waypoint's match and stops once the robot leaves the waypoint after first reaching it,
+// so a route that crosses itself or returns to its start is matched in order
+export const getWaypointErrors = (points: Point[], samples: TelemetrySample[]): WaypointError[] => {
+  if (samples.length === 0) return []
+  let from = 0
+  return points.map((point, pointIndex) => {
+    let closest = from
+    let distance = Infinity
+    for (let i = from; i < samples.length; i++) {
+      const d = Math.hypot(samples[i].fieldX - point.fieldX, samples[i].fieldY - point.fieldY)
+      if (distance <= WAYPOINT_TOLERANCE && d > WAYPOINT_TOLERANCE) break
+      if (d < distance) {
+        distance = d
+        closest = i
+      }
+    }
+    from = closest
+    const actual = samples[closest]
+    return {
+      pointIndex,
+      time: actual.time,
+      distance,
+      headingError: angleDifference(getPlannedFacing(points, pointIndex), actual.theta),
+    }
+  })
+}
@@ -0,0 +1,76 @@
+import type { FieldPosition, Point, RouteTransform, SavedRoute } from './types'
+import { fieldToPixel, normalizeDegrees } from './geometry'
+
+export const ROUTE_TRANSFORMS: { value: RouteTransform; label: string }[] = [
+  { value: 'mirror-y', label: 'Mirror Left/Right' },
+  { value: 'mirror-x', label: 'Mirror Top/Bottom' },
+  { value: 'rotate-180', label: 'Rotate 180°' },
+]
+
+const transformPosition = (p: FieldPosition, transform: RouteTransform): FieldPosition => {
+  switch (transform) {
+    case 'mirror-x':
+      return { fieldX: p.fieldX, fieldY: -p.fieldY }
+    case 'mirror-y':
+      return { fieldX: -p.fieldX, fieldY: p.fieldY }
+    case 'rotate-180':
+      return { fieldX: -p.fieldX, fieldY: -p.fieldY }
+  }
+}
+
+// Headings are measured clockwise from up, so mirroring reflects them and rotating adds a half turn
+const transformHeading = (theta: number, transform: RouteTransform) => {
+  switch (transform) {
+    case 'mirror-x':
+      return normalizeDegrees(180 - theta)
+    case 'mirror-y':
+      return normalizeDegrees(-theta)
+    case 'rotate-180':
+      return normalizeDegrees(theta + 180)
+  }
+}
+
+// Move every point, heading and bezier handle of a route, keeping its direction of travel and actions
+export const transformPoints = (points: Point[], transform: RouteTransform): Point[] => {
+  return points.map(p => {
+    const { fieldX, fieldY } = transformPosition(p, transform)
+    const { x, y } = fieldToPixel(fieldX, fieldY)
+    return {
+      ...p,
+      x,
+      y,
+      fieldX,
+      fieldY,
+      theta: transformHeading(p.theta, transform),
+      controls: p.controls && [transformPosition(p.controls[0], transform), transformPosition(p.controls[1], transform)],
+    }
+  })
+}
+
+// Bring linked copies up to date with their source, and copies of those copies after them
+// When the route being edited is itself a linked copy, its edits are carried back up the chain to the original first
+export const syncLinkedRoutes = (routes: SavedRoute[], activeId: string): SavedRoute[] => {
+  const byId = new Map(routes.map(r => [r.id, r]))
+  const updated = new Set([activeId])
+  let copy = byId.get(activeId)
+  while (copy?.link && !updated.has(copy.link.sourceId)) {
+    const source = byId.get(copy.link.sourceId)
+    if (!source) break
+    copy = { ...source, points: transformPoints(copy.points, copy.link.transform) }
+    byId.set(copy.id, copy)
+    updated.add(copy.id)
+  }
+  // Each route is refreshed only after its source, so a copy never reads stale points
+  const queue = [...updated]
+  for (let i = 0; i < queue.length; i++) {
+    const source = byId.get(queue[i])
+    if (!source) continue
+    for (const r of routes) {
+      if (!r.link || r.link.sourceId !== source.id || updated.has(r.id)) continue
+      byId.set(r.id, { ...r, points: transformPoints(source.points, r.link.transform) })
+      updated.add(r.id)
+      queue.push(r.id)
+    }
+  }
+  return routes.map(r => byId.get(r.id) ?? r)
+}
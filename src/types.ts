@@ -1,3 +1,111 @@
+// How the robot travels from the previous point to this one
+// point: turn to face the point, then drive straight (turnToPoint + moveToPoint)
+// pose: boomerang curve that arrives at theta (moveToPose)
+// bezier: cubic Bezier curve shaped by two draggable control handles
+export type MotionType = 'point' | 'pose' | 'bezier'
+
+// When a waypoint action runs, relative to the move arriving at its point
+// before: ahead of the move, after: once the move has finished,
+// distance: once the robot has driven `distance` inches of the segment (waitUntil)
+export type ActionTiming = 'before' | 'after' | 'distance'
+
+export type PistonState = 'extend' | 'retract' | 'toggle'
+
+// Something a subsystem does along the route, emitted in the code around the chassis calls
+export type WaypointAction = {
+  timing: ActionTiming;
+  distance: number; // in along the segment, only used with 'distance' timing
+} & (
+  | { kind: 'motor'; target: string; velocity: number } // motor group variable, -127 to 127
+  | { kind: 'pneumatic'; target: string; state: PistonState } // piston variable
+  | { kind: 'wait'; duration: number } // ms
+  | { kind: 'custom'; code: string } // pasted into the output as is
+)
+
+export type ActionKind = WaypointAction['kind']
+
+export interface FieldPosition {
+  fieldX: number;
+  fieldY: number;
+}
+
+export interface PixelPosition {
+  x: number;
+  y: number;
+}
+
+// Where the field sits in an image: pixel positions of its corners,
+// clockwise from the top left (-72, 72), the image may be an angled photo
+export interface FieldCalibration {
+  width: number; // image size in pixels
+  height: number;
+  corners: [PixelPosition, PixelPosition, PixelPosition, PixelPosition];
+}
+
+// A field image that can be picked for a route
+export interface FieldPreset {
+  id: string;
+  name: string;
+  image: string; // URL of a bundled image or a data URL for an uploaded one
+  calibration: FieldCalibration;
+  layout: string; // built-in field whose elements, starting tiles and time limit apply, '' for none
+}
+
+// An uploaded image waiting for its corners to be clicked
+export interface PendingCalibration {
+  name: string;
+  image: string; // data URL
+  width: number;
+  height: number;
+  layout: string;
+  cornerCount: 2 | 4; // two opposite corners for straight top-down images, all four for photos
+  clicks: PixelPosition[];
+}
+
+export interface FieldCalibrationDialogProps {
+  pending: PendingCalibration;
+  onChange: (pending: PendingCalibration) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+// A fixed structure on the field the robot can't drive through, as a rectangle in field coordinates
+export interface FieldElement {
+  name: string;
+  center: FieldPosition;
+  length: number; // in, along heading
+  width: number; // in, across heading
+  heading: number; // degrees, 0=up, 90=right
+}
+
+// A named spot on the field points can snap to
+export interface FieldFeature {
+  name: string;
+  position: FieldPosition;
+}
+
+// Which kinds of snapping are on while placing and dragging points
+export interface SnapSettings {
+  grid: boolean;
+  gridSize: number; // in
+  features: boolean;
+  heading: boolean; // 45° steps from the previous point
+  distance: boolean;
+  fixedDistance: number; // in from the previous point
+}
+
+// What a snapped position lined up with, drawn on the canvas while snapping
+export type SnapGuide =
+  | { kind: 'grid'; position: FieldPosition }
+  | { kind: 'feature'; position: FieldPosition; name: string }
+  | { kind: 'heading'; from: FieldPosition; heading: number }
+  | { kind: 'distance'; center: FieldPosition; radius: number }
+
+export interface SnapSettingsPanelProps {
+  settings: SnapSettings;
+  onChange: (settings: SnapSettings) => void;
+}
+
 export interface Point {
   x: number;
   y: number;
@@ -8,6 +116,10 @@ export interface Point {
   timeout: number; // in milliseconds, default 1000
   speed: number; // 1-127, default 70
   forwards: boolean; // true=forwards, false=backwards
+  motion: MotionType; // default 'point'
+  lead: number; // boomerang carrot distance (0-1) for pose motion, default 0.6
+  controls?: [FieldPosition, FieldPosition]; // bezier handles, near the previous point and near this point
+  actions: WaypointAction[]; // in the order they run, the first point's actions run right after the start pose is set
 }
 
 export interface NumberInputProps {
@@ -26,6 +138,7 @@ export interface IconButtonProps {
   isActive?: boolean;
   activeIconSrc?: string;
   size?: number;
+  disabled?: boolean;
 }
 
 export interface SelectInputProps {
@@ -40,4 +153,237 @@ export interface CheckboxProps {
   checked: boolean;
   iconSrc?: string;
   onChange: (checked: boolean) => void; 
-}
\ No newline at end of file
+}
+
+export interface ActionListProps {
+  actions: WaypointAction[];
+  onChange: (actions: WaypointAction[]) => void;
+}
+
+export interface CodeLine {
+  line: string;
+  pointIndex: number | null; // index of the point this line belongs to, null for spacers
+}
+
+export interface CodeGenerator {
+  id: string;
+  label: string;
+  defaultChassis: string; // variable name the target's templates give the drivetrain
+  generate: (points: Point[], chassis: string) => CodeLine[];
+}
+
+// Drivetrain limits used by the physics simulation, all at full speed (127)
+export interface DrivetrainModel {
+  maxVelocity: number; // in/s
+  acceleration: number; // in/s^2, also used for deceleration
+  turnRate: number; // deg/s when turning in place
+  turnAcceleration: number; // deg/s^2
+}
+
+export type SimulationMode = 'timeout' | 'physics'
+
+// A physical robot, saved for reuse and copied into every route planned with it
+export interface RobotProfile {
+  id: string;
+  name: string;
+  width: number; // in, side to side
+  length: number; // in, front to back
+  trackingOffset: {
+    forward: number; // in, tracking center ahead of the geometric center
+    right: number; // in, tracking center right of the geometric center
+  };
+  wheelDiameter: number; // in
+  gearRatio: number; // wheel turns per motor turn
+  maxRpm: number; // motor cartridge speed
+  chassisName: string; // drivetrain variable in generated code, empty for the code target's default
+}
+
+export interface RobotProfilePanelProps {
+  robot: RobotProfile;
+  profiles: RobotProfile[];
+  onChange: (robot: RobotProfile) => void;
+  onSelect: (id: string) => void;
+  onSave: () => void;
+  onCreate: () => void;
+  onDelete: () => void;
+}
+
+// Whole-route transforms, each one is its own inverse
+// mirror-x mirrors across the X axis (top and bottom swap), mirror-y across the Y axis (left and right swap)
+export type RouteTransform = 'mirror-x' | 'mirror-y' | 'rotate-180'
+
+// A route kept as a transformed copy of another, editing either one updates the other
+export interface RouteLink {
+  sourceId: string;
+  transform: RouteTransform;
+}
+
+// A named route in the local library, with the field and robot it was planned for
+export interface SavedRoute {
+  id: string;
+  name: string;
+  points: Point[];
+  field: string; // id of a field preset
+  robot: RobotProfile;
+  link?: RouteLink;
+}
+
+export interface RouteLibrary {
+  routes: SavedRoute[];
+  activeId: string;
+}
+
+export interface RouteLibraryPanelProps {
+  library: RouteLibrary;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+  onLinkedCopy: (transform: RouteTransform) => void;
+  onUnlink: () => void;
+}
+
+// On-disk route file, written by Download and read by Import
+// Pixel x/y and point ids are not stored, they are recomputed when the file is loaded
+export interface RouteDocument {
+  format: 'vex-route-planner';
+  version: number;
+  field: string; // id of a field preset
+  robot: Omit<RobotProfile, 'id'>;
+  points: Omit<Point, 'x' | 'y' | 'id'>[];
+  metadata: {
+    name: string;
+    exportedAt: string; // ISO 8601
+  };
+}
+
+export interface RouteFileIssue {
+  path: string; // location of the problem, e.g. points[3].speed
+  message: string;
+}
+
+export type LintSeverity = 'error' | 'warning'
+
+// A mistake in the route found by one of the lint rules, tied to the point it concerns
+export interface RouteLintIssue {
+  rule: string;
+  severity: LintSeverity;
+  pointIndex: number;
+  message: string;
+}
+
+export interface LintPanelProps {
+  issues: RouteLintIssue[];
+  selectedIndex: number; // index of the selected point, -1 if none
+  onSelect: (pointIndex: number) => void;
+}
+
+export interface ContextMenuItem {
+  label: string;
+  onSelect: () => void;
+  disabled?: boolean;
+}
+
+export interface ContextMenuProps {
+  left: number; // CSS pixels within the field panel
+  top: number;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}
+
+// One pose the robot logged during a run, as chassis.getPose() reports it
+export interface TelemetrySample extends FieldPosition {
+  time: number; // ms from the start of the log
+  theta: number; // degrees, 0 = up, 90 = right
+}
+
+export interface TelemetryLog {
+  fileName: string;
+  samples: TelemetrySample[]; // in time order
+}
+
+// A pose streamed from the robot while it drives
+export type LivePose = Omit<TelemetrySample, 'time'>
+
+export type LiveStatus = 'disconnected' | 'connecting' | 'connected' | 'error'
+
+// How far a logged run was from one waypoint of the plan
+export interface WaypointError {
+  pointIndex: number;
+  time: number; // ms into the log when the robot came closest
+  distance: number; // in
+  headingError: number; // degrees from the planned heading to the logged one
+}
+
+// One sample of a dense path file (LemLib pure pursuit format: x, y, speed)
+export interface PathFilePoint {
+  fieldX: number;
+  fieldY: number;
+  speed: number;
+}
+
+export interface ImportedPath {
+  name: string;
+  points: Point[];
+}
+
+// A path file or pasted code waiting for confirmation before it replaces the current route
+export type PendingImport =
+  | { kind: 'jerryio'; fileName: string; paths: ImportedPath[]; pathIndex: number }
+  | { kind: 'lemlib'; fileName: string; samples: PathFilePoint[]; tolerance: number }
+  | { kind: 'code'; fileName: string; code: string }
+
+export interface ImportPreviewProps {
+  pendingImport: PendingImport;
+  pointCount: number;
+  issues: CodeParseIssue[];
+  onChange: (pendingImport: PendingImport) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// A line of pasted autonomous code that could not be turned into route points
+export interface CodeParseIssue {
+  line: number; // 1-based
+  text: string;
+  message: string;
+}
+
+// Everything printed on an exported route sheet, the field is the canvas drawing as a JPEG
+export interface RouteSheet {
+  title: string;
+  details: string[];
+  field: { jpeg: Uint8Array<ArrayBuffer>; width: number; height: number };
+  table: { header: string[]; rows: string[][] };
+  code: string[];
+}
+
+// A move on the timeline, times in seconds from the start of the run
+export interface TimelineBlock {
+  pointIndex: number; // index of the destination point
+  start: number;
+  duration: number;
+  turnTime: number; // turning in place at the start, 0 outside physics mode
+  overTimeout: boolean; // the simulated drive takes longer than the point's timeout
+}
+
+export interface TimelineMarker {
+  time: number; // s
+  label: string;
+  pointIndex: number;
+}
+
+export interface TimelineProps {
+  blocks: TimelineBlock[];
+  markers: TimelineMarker[];
+  timeLimit: number; // s, the autonomous period
+  playhead: number; // s
+  selectedIndex: number; // index of the selected point, -1 if none
+  editable: boolean; // block edges set timeouts, only while timeouts size the blocks
+  onSelect: (pointIndex: number) => void;
+  onSeek: (time: number) => void;
+  onResizeStart: () => void;
+  onResize: (pointIndex: number, timeout: number) => void; // ms
+  onResizeEnd: () => void;
+}